@@ -0,0 +1,178 @@
+// LAN relay between the admin page, displays on other machines (smart TV, second laptop)
+// and players' phones.
+// Clients join a room by code. The first admin to open a room claims it with a secret key
+// that only the admin page has; after that, only a connection with the same key can be
+// admin there, and it replaces the previous one. The admin's messages go to everyone else
+// in the room untouched. Displays and phones are only trusted with the few messages their pages
+// send, and those go to the admin alone, so a phone on the LAN can't drive the game
+// or speak for another player.
+//
+//   node server/relay.js            (listens on port 8787)
+//   PORT=9000 node server/relay.js
+//
+// Clients connect to ws://<this machine>:<port>/?room=<code>&role=<admin|display|player>
+// (admins add &key=<admin key>). Close codes 4000-4099 mean "don't retry".
+
+import { WebSocketServer } from 'ws';
+import os from 'node:os';
+
+const PORT = Number(process.env.PORT) || 8787;
+const ROOM_CODE = /^[A-Z0-9]{4,8}$/;
+const ROLES = new Set(['admin', 'display', 'player']);
+const ADMIN_KEY = /^[A-Za-z0-9_-]{16,64}$/;
+// Drop connections that stop answering, e.g. a TV that went to sleep
+const KEEPALIVE_INTERVAL_MS = 30000;
+// What each non-admin role may send; everything else from them is dropped
+const ALLOWED_TYPES = {
+  display: new Set(['hello', 'hello_ack', 'pong', 'request_snapshot']),
+  player: new Set(['hello', 'hello_ack', 'request_snapshot', 'player_join', 'player_input']),
+};
+
+/** @type {Map<string, Set<import('ws').WebSocket>>} */
+const rooms = new Map();
+// Admin key each room was first opened with; kept when the room empties so it can't be taken over
+/** @type {Map<string, string>} */
+const roomKeys = new Map();
+
+function parseMessage(data, isBinary) {
+  if (isBinary) return null;
+  try {
+    const envelope = JSON.parse(data.toString());
+    return envelope && typeof envelope.message === 'object' ? envelope.message : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why a message from a display or phone may not be passed on, or null when it's fine.
+ * A phone's player id is bound to its socket by its first player_join, moving it
+ * off any older socket that had it.
+ */
+function rejectReason(socket, peers, message) {
+  if (!message || !ALLOWED_TYPES[socket.role].has(message.type)) return 'not allowed for this role';
+
+  const payload = message.payload ?? {};
+  if ((message.type === 'hello' || message.type === 'hello_ack') && payload.role !== socket.role) {
+    return 'claims another role';
+  }
+
+  if (message.type === 'player_join') {
+    if (socket.playerId && socket.playerId !== payload.id) return 'player id changed';
+    // A reloaded phone can be back before its old socket is noticed gone; the newest one wins
+    for (const peer of peers) {
+      if (peer === socket || peer.playerId !== payload.id) continue;
+      peers.delete(peer);
+      peer.close(4003, 'Rejoined from another connection');
+    }
+    socket.playerId = payload.id;
+  }
+  if (message.type === 'player_input' && (!socket.playerId || payload.playerId !== socket.playerId)) {
+    return 'input for another player';
+  }
+  return null;
+}
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (socket, request) => {
+  const url = new URL(request.url ?? '/', 'http://relay');
+  const room = (url.searchParams.get('room') ?? '').toUpperCase();
+  const role = url.searchParams.get('role') ?? '';
+
+  if (!ROOM_CODE.test(room) || !ROLES.has(role)) {
+    socket.close(4000, 'Expected ?room=<4-8 letters or digits>&role=<admin|display|player>');
+    return;
+  }
+
+  if (role === 'admin') {
+    const key = url.searchParams.get('key') ?? '';
+    if (!ADMIN_KEY.test(key)) {
+      socket.close(4001, 'Admin connections need ?key=<admin key>');
+      return;
+    }
+    if (roomKeys.has(room) && roomKeys.get(room) !== key) {
+      console.warn(`[${room}] refused an admin with the wrong key`);
+      socket.close(4001, 'This room belongs to another admin');
+      return;
+    }
+    roomKeys.set(room, key);
+  }
+
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  const peers = rooms.get(room);
+  // One admin per room: a reconnecting admin page takes over from its old, possibly half-open socket
+  if (role === 'admin') {
+    for (const peer of peers) {
+      if (peer.role !== 'admin') continue;
+      peers.delete(peer);
+      peer.close(4002, 'Replaced by a newer admin connection');
+    }
+  }
+  peers.add(socket);
+  console.log(`[${room}] ${role} joined (${peers.size} connected)`);
+
+  socket.role = role;
+  socket.isAlive = true;
+  socket.on('pong', () => {
+    socket.isAlive = true;
+  });
+
+  socket.on('message', (data, isBinary) => {
+    if (role !== 'admin') {
+      const message = parseMessage(data, isBinary);
+      const reason = rejectReason(socket, peers, message);
+      if (reason) {
+        console.warn(`[${room}] dropped ${message?.type ?? 'unreadable'} message from ${role}: ${reason}`);
+        return;
+      }
+    }
+
+    for (const peer of peers) {
+      if (peer === socket || peer.readyState !== peer.OPEN) continue;
+      // Only the admin listens to displays and phones
+      if (role !== 'admin' && peer.role !== 'admin') continue;
+      peer.send(data, { binary: isBinary });
+    }
+  });
+
+  socket.on('close', () => {
+    peers.delete(socket);
+    if (peers.size === 0) rooms.delete(room);
+    console.log(`[${room}] ${role} left (${peers.size} connected)`);
+  });
+
+  socket.on('error', (error) => {
+    console.warn(`[${room}] ${role} socket error:`, error.message);
+  });
+});
+
+const keepalive = setInterval(() => {
+  for (const socket of wss.clients) {
+    if (!socket.isAlive) {
+      socket.terminate();
+      continue;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  }
+}, KEEPALIVE_INTERVAL_MS);
+
+wss.on('close', () => clearInterval(keepalive));
+
+wss.on('listening', () => {
+  const addresses = Object.values(os.networkInterfaces())
+    .flat()
+    .filter((info) => info && info.family === 'IPv4' && !info.internal)
+    .map((info) => `ws://${info.address}:${PORT}`);
+
+  console.log(`Display relay listening on port ${PORT}`);
+  for (const address of addresses) {
+    console.log(`  ${address}`);
+  }
+});
+
+process.on('SIGINT', () => {
+  wss.close();
+  process.exit(0);
+});
@@ -6,6 +6,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { GameProvider } from "@/contexts/GameContext";
 import AdminPage from "./pages/AdminPage";
 import DisplayPage from "./pages/DisplayPage";
+import PlayPage from "./pages/PlayPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,6 +21,7 @@ const App = () => (
           <Routes>
             <Route path="/" element={<AdminPage />} />
             <Route path="/display" element={<DisplayPage />} />
+            <Route path="/play" element={<PlayPage />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
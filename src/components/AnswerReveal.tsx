@@ -0,0 +1,29 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+import type { RevealedAnswer } from '@/lib/channelProtocol';
+
+interface AnswerRevealProps {
+  reveal: RevealedAnswer;
+  className?: string;
+}
+
+export function AnswerReveal({ reveal, className }: AnswerRevealProps) {
+  return (
+    <div className={cn('flex flex-col items-center gap-4 text-center', className)}>
+      <p className="text-xl text-muted-foreground">The answer was...</p>
+      <h2
+        key={reveal.word}
+        className="text-6xl font-bold text-christmas-gold uppercase tracking-wide animate-reveal [animation-delay:300ms]"
+      >
+        ✨ {reveal.word} ✨
+      </h2>
+      {reveal.explanation ? (
+        <div className="animate-fade-in bg-card/90 backdrop-blur border-2 border-christmas-gold rounded-xl p-6 max-w-lg">
+          <p className="text-lg text-foreground">🎅 {reveal.explanation}</p>
+        </div>
+      ) : (
+        <p className="text-muted-foreground italic animate-pulse">Santa is explaining...</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Check, RefreshCw, Trash2 } from 'lucide-react';
+import type { PendingReview, ReviewDecision } from '@/hooks/useReplyModeration';
+
+interface ReplyReviewCardProps {
+  review: PendingReview;
+  onDecide: (decision: ReviewDecision) => void;
+  onEdit: () => void;
+}
+
+// Keyed by review id, so each review starts from Santa's own text
+export function ReplyReviewCard({ review, onDecide, onEdit }: ReplyReviewCardProps) {
+  const [draft, setDraft] = useState(review.verdict.reply);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (review.autoApproveAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [review.autoApproveAt]);
+
+  const { verdict } = review;
+  const secondsLeft = review.autoApproveAt === null ? null : Math.max(0, Math.ceil((review.autoApproveAt - now) / 1000));
+
+  return (
+    <Card className="christmas-card border-christmas-gold">
+      <CardHeader>
+        <CardTitle className="text-christmas-gold flex items-center justify-between gap-2">
+          <span>🛡️ Review Santa's Reply</span>
+          {secondsLeft !== null && (
+            <Badge variant="secondary">Auto-approve in {secondsLeft}s</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">{review.from ?? 'Room'}:</span>
+          <span className="font-medium">"{review.input}"</span>
+          <Badge variant="outline">
+            {verdict.kind === 'question' ? 'Question' : `Guess: ${verdict.verdict}`}
+            {' · '}
+            {Math.round(verdict.confidence * 100)}% sure
+          </Badge>
+        </div>
+        <Textarea
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            onEdit();
+          }}
+          rows={3}
+        />
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => onDecide({ action: 'approve', reply: draft.trim() })}
+            disabled={!draft.trim()}
+            className="bg-christmas-green hover:bg-christmas-green/80"
+          >
+            <Check className="mr-2 h-4 w-4" />
+            {draft.trim() === verdict.reply ? 'Approve' : 'Approve Edit'}
+          </Button>
+          <Button onClick={() => onDecide({ action: 'regenerate' })} variant="outline">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Regenerate
+          </Button>
+          <Button onClick={() => onDecide({ action: 'discard' })} variant="outline">
+            <Trash2 className="mr-2 h-4 w-4" />
+            Discard
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
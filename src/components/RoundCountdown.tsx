@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { formatCountdown, timeLeft, RoundTimer } from '@/lib/roundTimer';
+
+interface RoundCountdownProps {
+  timer: RoundTimer;
+  /** Admin clock minus this device's clock */
+  clockOffsetMs?: number;
+  className?: string;
+}
+
+const TICK_MS = 200;
+
+export function RoundCountdown({ timer, clockOffsetMs = 0, className }: RoundCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = timeLeft(timer, now + clockOffsetMs);
+  const progress = timer.durationMs > 0 ? remaining / timer.durationMs : 0;
+  const isWarning = timer.warningMs > 0 && remaining <= timer.warningMs;
+
+  return (
+    <div className={cn('flex flex-col items-center gap-2', className)}>
+      <span
+        className={cn(
+          'text-7xl font-bold tabular-nums transition-colors duration-500',
+          isWarning ? 'text-christmas-red animate-pulse' : 'text-christmas-gold'
+        )}
+      >
+        ⏱️ {formatCountdown(remaining)}
+      </span>
+      <div className="w-64 h-3 rounded-full bg-muted overflow-hidden">
+        <div
+          className={cn('h-full transition-all duration-200', isWarning ? 'bg-christmas-red' : 'bg-christmas-green')}
+          style={{ width: `${progress * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
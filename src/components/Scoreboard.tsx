@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { rankTeams, ScoreEvent, TeamScore } from '@/lib/scoring';
+
+interface ScoreboardProps {
+  teams: TeamScore[];
+  lastScoreEvent?: ScoreEvent;
+  className?: string;
+}
+
+const COUNT_DURATION_MS = 800;
+const HIGHLIGHT_MS = 2000;
+
+// Counts smoothly from the previous value to the new one
+function AnimatedNumber({ value }: { value: number }) {
+  const [shown, setShown] = useState(value);
+  const shownRef = useRef(value);
+
+  useEffect(() => {
+    const from = shownRef.current;
+    if (from === value) return;
+
+    const start = performance.now();
+    let frame = 0;
+    const tick = (now: number) => {
+      const t = Math.min(1, (now - start) / COUNT_DURATION_MS);
+      const eased = 1 - (1 - t) ** 3;
+      shownRef.current = Math.round(from + (value - from) * eased);
+      setShown(shownRef.current);
+      if (t < 1) frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [value]);
+
+  return <>{shown}</>;
+}
+
+export function Scoreboard({ teams, lastScoreEvent, className }: ScoreboardProps) {
+  const [highlight, setHighlight] = useState<ScoreEvent | null>(null);
+
+  // Flash the team that just scored, once per event (every state broadcast carries a fresh copy)
+  const eventRef = useRef(lastScoreEvent);
+  eventRef.current = lastScoreEvent;
+  const eventId = lastScoreEvent?.id;
+  useEffect(() => {
+    if (eventId === undefined) return;
+    setHighlight(eventRef.current);
+    const timer = setTimeout(() => setHighlight(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [eventId]);
+
+  if (teams.length === 0) return null;
+
+  return (
+    <div className={cn('bg-card/90 backdrop-blur border-2 border-christmas-gold rounded-xl p-4 min-w-[220px]', className)}>
+      <h3 className="text-lg font-bold text-christmas-gold mb-2 text-center">🏆 Scoreboard</h3>
+      <ol className="space-y-1">
+        {rankTeams(teams).map((team, index) => {
+          const isHighlighted = highlight?.team === team.team;
+          return (
+            <li
+              key={team.team}
+              className={cn(
+                'relative flex items-center justify-between gap-4 px-2 py-1 rounded transition-colors duration-500',
+                isHighlighted && (highlight.points >= 0 ? 'bg-christmas-green/30' : 'bg-christmas-red/30')
+              )}
+            >
+              <span className="text-foreground">
+                <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                {team.team}
+              </span>
+              <span className="font-bold text-xl text-christmas-gold tabular-nums">
+                <AnimatedNumber value={team.score} />
+              </span>
+              {isHighlighted && highlight.points !== 0 && (
+                <span
+                  key={highlight.id}
+                  className={cn(
+                    'absolute -right-2 -top-3 text-sm font-bold animate-score-pop pointer-events-none',
+                    highlight.points > 0 ? 'text-christmas-green' : 'text-christmas-red'
+                  )}
+                >
+                  {highlight.points > 0 ? `+${highlight.points}` : highlight.points}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
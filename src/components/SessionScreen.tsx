@@ -0,0 +1,61 @@
+import React from 'react';
+import { Scoreboard } from '@/components/Scoreboard';
+import { findWinners, TeamScore } from '@/lib/scoring';
+import type { SessionState } from '@/lib/session';
+
+interface SessionScreenProps {
+  session: SessionState;
+  teams: TeamScore[];
+}
+
+const CELEBRATION = ['🎉', '🏆', '🎁', '⭐', '🎄', '🎉'];
+
+// Full-size standings between rounds and the winner celebration at the end
+export function SessionScreen({ session, teams }: SessionScreenProps) {
+  if (session.phase === 'intermission') {
+    return (
+      <div className="w-full flex flex-col items-center gap-6 animate-fade-in">
+        <div className="bg-card/80 backdrop-blur rounded-xl p-8 border-2 border-christmas-gold text-center">
+          <h2 className="text-4xl font-bold text-christmas-gold mb-2">Round {session.round} complete!</h2>
+          <p className="text-xl text-muted-foreground">
+            Round {session.round + 1} of {session.totalRounds} is coming up...
+          </p>
+        </div>
+        <Scoreboard teams={teams} className="text-2xl min-w-[360px]" />
+      </div>
+    );
+  }
+
+  if (session.phase === 'finished') {
+    const winners = findWinners(teams);
+    return (
+      <div className="w-full flex flex-col items-center gap-6 animate-fade-in">
+        <div className="flex gap-4">
+          {CELEBRATION.map((emoji, i) => (
+            <span key={i} className="text-5xl animate-bounce-gentle" style={{ animationDelay: `${i * 0.15}s` }}>
+              {emoji}
+            </span>
+          ))}
+        </div>
+        <div className="bg-card/80 backdrop-blur rounded-xl p-8 border-2 border-christmas-gold text-center">
+          {winners.length === 0 ? (
+            <h2 className="text-4xl font-bold text-christmas-gold">Thanks for playing!</h2>
+          ) : (
+            <>
+              <p className="text-xl text-muted-foreground mb-2">
+                {winners.length === 1 ? 'And the winner is...' : "It's a tie!"}
+              </p>
+              <h2 className="text-5xl font-bold text-christmas-gold animate-pulse-glow">
+                {winners.map(w => w.team).join(' & ')}
+              </h2>
+              <p className="text-xl text-foreground mt-2">with {winners[0].score} points</p>
+            </>
+          )}
+        </div>
+        <Scoreboard teams={teams} className="text-2xl min-w-[360px]" />
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -1,12 +1,30 @@
 import React, { createContext, useContext, useState, useCallback, useRef } from 'react';
 import type { CharacterEmotion, GameState } from '@/hooks/useWindowChannel';
+import { applyScore, DEFAULT_SCORING_RULES, ScoreOutcome, ScoringRules } from '@/lib/scoring';
+import { DEFAULT_SESSION_SETTINGS, SessionSettings } from '@/lib/session';
+import { DEFAULT_ROUND_TIMER_SETTINGS, RoundTimerSettings } from '@/lib/roundTimer';
 
 export interface GameParams {
   difficulty: 'easy' | 'medium' | 'hard';
   hintsAllowed: number;
   wordList: string[];
+  // Extra answers accepted for a word, keyed by the word as it appears in wordList
+  aliases: Record<string, string[]>;
+  scoring: ScoringRules;
+  session: SessionSettings;
+  timer: RoundTimerSettings;
 }
 
+// Game state as it was just before a host-visible action, so it can be undone
+export interface UndoEntry {
+  id: number;
+  label: string;
+  at: number;
+  state: GameState;
+}
+
+export const MAX_UNDO_ENTRIES = 20;
+
 interface GameContextType {
   // Game params
   params: GameParams;
@@ -21,6 +39,19 @@ interface GameContextType {
   endGame: () => void;
   useHint: () => boolean; // Returns false if no hints left
   setEmotion: (emotion: CharacterEmotion) => void;
+
+  // Scoreboard
+  awardPoints: (team: string, points: number, outcome: ScoreOutcome, reason: string) => void;
+  // Take back points (and the solve or miss) given earlier
+  revokePoints: (team: string, points: number, outcome: ScoreOutcome, reason: string) => void;
+  addTeam: (team: string) => void;
+  removeTeam: (team: string) => void;
+  resetScores: () => void;
+
+  // Undo
+  undoStack: UndoEntry[];
+  checkpoint: (label: string) => number; // Returns the entry id
+  undo: () => UndoEntry | null;
   
   // Processing state
   isProcessing: boolean;
@@ -37,10 +68,23 @@ const DEFAULT_WORDS = [
   'presents', 'fireplace', 'sugarplum', 'angel', 'star',
 ];
 
+// Plurals, spacing and small typos are matched anyway; these cover real alternatives
+const DEFAULT_ALIASES: Record<string, string[]> = {
+  'caroling': ['carolling', 'carol singing', 'christmas carols'],
+  'presents': ['gifts'],
+  'bells': ['jingle bells', 'sleigh bells'],
+  'sugarplum': ['sugar plum fairy'],
+  'star': ['christmas star'],
+};
+
 const DEFAULT_PARAMS: GameParams = {
   difficulty: 'medium',
   hintsAllowed: 3,
   wordList: DEFAULT_WORDS,
+  aliases: DEFAULT_ALIASES,
+  scoring: DEFAULT_SCORING_RULES,
+  session: DEFAULT_SESSION_SETTINGS,
+  timer: DEFAULT_ROUND_TIMER_SETTINGS,
 };
 
 const DEFAULT_GAME_STATE: GameState = {
@@ -51,6 +95,11 @@ const DEFAULT_GAME_STATE: GameState = {
   hintsUsed: 0,
   emotion: 'neutral',
   statusText: 'Waiting to start...',
+  teams: [],
+  session: null,
+  timer: null,
+  reveal: null,
+  roundStartedAt: null,
 };
 
 const GameContext = createContext<GameContextType | null>(null);
@@ -62,6 +111,12 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
   const [isMuted, setIsMuted] = useState(false);
   
   const usedWordsRef = useRef<Set<string>>(new Set());
+  const scoreEventIdRef = useRef(0);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const undoIdRef = useRef(0);
+  // Last rendered state; checkpoints are taken before an action's own updates land
+  const gameStateRef = useRef(gameState);
+  gameStateRef.current = gameState;
 
   const updateGameState = useCallback((updates: Partial<GameState>) => {
     setGameState(prev => ({ ...prev, ...updates }));
@@ -80,7 +135,8 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
     const selectedWord = words[Math.floor(Math.random() * words.length)];
     usedWordsRef.current.add(selectedWord);
 
-    setGameState({
+    // Scores and the session carry over from word to word
+    setGameState(prev => ({
       isGameActive: true,
       currentWord: selectedWord,
       currentRiddle: '',
@@ -88,7 +144,13 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
       hintsUsed: 0,
       emotion: 'neutral',
       statusText: 'Generating riddle...',
-    });
+      teams: prev.teams,
+      lastScoreEvent: prev.lastScoreEvent,
+      session: prev.session,
+      timer: null,
+      reveal: null,
+      roundStartedAt: null,
+    }));
 
     return selectedWord;
   }, [params]);
@@ -99,6 +161,7 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
       isGameActive: false,
       emotion: 'neutral',
       statusText: 'Game ended',
+      timer: null,
     }));
   }, []);
 
@@ -118,6 +181,65 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
     setGameState(prev => ({ ...prev, emotion }));
   }, []);
 
+  const awardPoints = useCallback((
+    team: string,
+    points: number,
+    outcome: 'solve' | 'wrong' | 'adjust',
+    reason: string
+  ) => {
+    setGameState(prev => ({
+      ...prev,
+      teams: applyScore(prev.teams, team, points, outcome),
+      lastScoreEvent: { id: ++scoreEventIdRef.current, team, points, reason },
+    }));
+  }, []);
+
+  const revokePoints = useCallback((
+    team: string,
+    points: number,
+    outcome: ScoreOutcome,
+    reason: string
+  ) => {
+    setGameState(prev => ({
+      ...prev,
+      teams: applyScore(prev.teams, team, -points, outcome, -1),
+      lastScoreEvent: { id: ++scoreEventIdRef.current, team, points: -points, reason },
+    }));
+  }, []);
+
+  const addTeam = useCallback((team: string) => {
+    setGameState(prev => prev.teams.some(t => t.team === team)
+      ? prev
+      : { ...prev, teams: applyScore(prev.teams, team, 0, 'adjust') });
+  }, []);
+
+  const removeTeam = useCallback((team: string) => {
+    setGameState(prev => ({ ...prev, teams: prev.teams.filter(t => t.team !== team) }));
+  }, []);
+
+  const resetScores = useCallback(() => {
+    setGameState(prev => ({
+      ...prev,
+      teams: prev.teams.map(t => ({ ...t, score: 0, solves: 0, wrongGuesses: 0 })),
+      lastScoreEvent: undefined,
+    }));
+  }, []);
+
+  const checkpoint = useCallback((label: string) => {
+    const entry = { id: ++undoIdRef.current, label, at: Date.now(), state: gameStateRef.current };
+    setUndoStack(prev => [entry, ...prev].slice(0, MAX_UNDO_ENTRIES));
+    return entry.id;
+  }, []);
+
+  const undo = useCallback(() => {
+    const [entry, ...rest] = undoStack;
+    if (!entry) return null;
+    setUndoStack(rest);
+    // An old score event would flash on the scoreboard again
+    setGameState({ ...entry.state, lastScoreEvent: undefined });
+    return entry;
+  }, [undoStack]);
+
   return (
     <GameContext.Provider
       value={{
@@ -129,6 +251,14 @@ export function GameProvider({ children }: { children: React.ReactNode }) {
         endGame,
         useHint,
         setEmotion,
+        awardPoints,
+        addTeam,
+        removeTeam,
+        resetScores,
+        revokePoints,
+        undoStack,
+        checkpoint,
+        undo,
         isProcessing,
         setIsProcessing,
         isMuted,
@@ -0,0 +1,96 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  INPUT_DEVICE_STORAGE_KEY,
+  OUTPUT_DEVICE_STORAGE_KEY,
+  loadDeviceId,
+  saveDeviceId,
+  supportsOutputSelection,
+} from '@/lib/audioDevices';
+
+interface UseAudioDevicesOptions {
+  // Prompt for mic permission so device labels are available
+  requestPermission?: boolean;
+}
+
+export function useAudioDevices(options: UseAudioDevicesOptions = {}) {
+  const { requestPermission = false } = options;
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+  const [inputId, setInputIdState] = useState(() => loadDeviceId(INPUT_DEVICE_STORAGE_KEY));
+  const [outputId, setOutputIdState] = useState(() => loadDeviceId(OUTPUT_DEVICE_STORAGE_KEY));
+
+  const setInputId = useCallback((deviceId: string) => {
+    setInputIdState(deviceId);
+    saveDeviceId(INPUT_DEVICE_STORAGE_KEY, deviceId);
+  }, []);
+
+  const setOutputId = useCallback((deviceId: string) => {
+    setOutputIdState(deviceId);
+    saveDeviceId(OUTPUT_DEVICE_STORAGE_KEY, deviceId);
+  }, []);
+
+  // Fetch available audio devices
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchDevices = async () => {
+      try {
+        if (requestPermission) {
+          // Request permission first to get device labels, then release the mic
+          const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+          stream.getTracks().forEach(track => track.stop());
+        }
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (cancelled) return;
+
+        const audioInputs = devices.filter(d => d.kind === 'audioinput');
+        const audioOutputs = devices.filter(d => d.kind === 'audiooutput');
+        setInputs(audioInputs);
+        setOutputs(audioOutputs);
+
+        // Fall back to the system default when the chosen device disappears.
+        // The stored choice is kept so it's picked up again when plugged back in.
+        setInputIdState(prev => {
+          const stored = loadDeviceId(INPUT_DEVICE_STORAGE_KEY);
+          if (stored && audioInputs.some(d => d.deviceId === stored)) return stored;
+          return audioInputs.some(d => d.deviceId === prev) ? prev : '';
+        });
+        setOutputIdState(prev => {
+          const stored = loadDeviceId(OUTPUT_DEVICE_STORAGE_KEY);
+          if (stored && audioOutputs.some(d => d.deviceId === stored)) return stored;
+          return audioOutputs.some(d => d.deviceId === prev) ? prev : '';
+        });
+      } catch (err) {
+        console.error('Could not enumerate devices:', err);
+      }
+    };
+    fetchDevices();
+
+    // Listen for device changes (plugged in / unplugged)
+    navigator.mediaDevices.addEventListener('devicechange', fetchDevices);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener('devicechange', fetchDevices);
+    };
+  }, [requestPermission]);
+
+  // Keep other windows (e.g. the display) in sync with the admin's choice
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === INPUT_DEVICE_STORAGE_KEY) setInputIdState(event.newValue ?? '');
+      if (event.key === OUTPUT_DEVICE_STORAGE_KEY) setOutputIdState(event.newValue ?? '');
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  return {
+    inputs,
+    outputs,
+    inputId,
+    setInputId,
+    outputId,
+    setOutputId,
+    canSelectOutput: supportsOutputSelection(),
+  };
+}
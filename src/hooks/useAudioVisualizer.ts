@@ -1,12 +1,14 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { getMicrophoneStream } from '@/lib/audioDevices';
 
 interface UseAudioVisualizerOptions {
   fftSize?: number;
   smoothingTimeConstant?: number;
+  deviceId?: string;
 }
 
 export function useAudioVisualizer(options: UseAudioVisualizerOptions = {}) {
-  const { fftSize = 256, smoothingTimeConstant = 0.8 } = options;
+  const { fftSize = 256, smoothingTimeConstant = 0.8, deviceId } = options;
   const [isActive, setIsActive] = useState(false);
   const [frequencyData, setFrequencyData] = useState<Uint8Array>(new Uint8Array(fftSize / 2));
   
@@ -27,7 +29,7 @@ export function useAudioVisualizer(options: UseAudioVisualizerOptions = {}) {
 
   const start = useCallback(async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await getMicrophoneStream(deviceId, {});
       streamRef.current = stream;
       
       audioContextRef.current = new AudioContext();
@@ -43,7 +45,7 @@ export function useAudioVisualizer(options: UseAudioVisualizerOptions = {}) {
     } catch (error) {
       console.error('Failed to start audio visualizer:', error);
     }
-  }, [fftSize, smoothingTimeConstant, updateFrequencyData]);
+  }, [fftSize, smoothingTimeConstant, deviceId, updateFrequencyData]);
 
   const stop = useCallback(() => {
     if (animationRef.current) {
@@ -71,6 +73,17 @@ export function useAudioVisualizer(options: UseAudioVisualizerOptions = {}) {
     setFrequencyData(new Uint8Array(fftSize / 2));
   }, [fftSize]);
 
+  // Follow the selected mic while running
+  const activeDeviceIdRef = useRef(deviceId);
+  useEffect(() => {
+    if (activeDeviceIdRef.current === deviceId) return;
+    activeDeviceIdRef.current = deviceId;
+    if (streamRef.current) {
+      stop();
+      start();
+    }
+  }, [deviceId, start, stop]);
+
   useEffect(() => {
     return () => {
       stop();
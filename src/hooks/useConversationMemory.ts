@@ -0,0 +1,96 @@
+import { useCallback, useRef, useState } from 'react';
+import {
+  addExchange,
+  applySummary,
+  memoryTokens,
+  planCompaction,
+  EMPTY_MEMORY,
+  type ConversationMemory,
+  type Exchange,
+  type MemorySettings,
+} from '@/lib/conversationMemory';
+import { isCancelled } from '@/lib/llmProviders';
+
+// The memory as it was at an undo checkpoint
+export interface MemorySnapshot {
+  secretWord: string;
+  memory: ConversationMemory;
+}
+
+interface UseConversationMemoryOptions {
+  settings: MemorySettings;
+  // Condense the oldest `count` exchanges (and the summary so far) into a new summary
+  summarize: (secretWord: string, memory: ConversationMemory, count: number) => Promise<string>;
+}
+
+/**
+ * Santa's memory of the current word: every question and answer, summarized in
+ * the background once it outgrows the token budget. Starts over with each word.
+ */
+export function useConversationMemory({ settings, summarize }: UseConversationMemoryOptions) {
+  const memoryRef = useRef<ConversationMemory>(EMPTY_MEMORY);
+  const wordRef = useRef('');
+  // Bumped by reset() so a summary of the previous word is thrown away
+  const generationRef = useRef(0);
+  const compactingRef = useRef(false);
+  const [tokens, setTokens] = useState(0);
+
+  const summarizeRef = useRef(summarize);
+  summarizeRef.current = summarize;
+
+  const update = useCallback((memory: ConversationMemory) => {
+    memoryRef.current = memory;
+    setTokens(memoryTokens(memory));
+  }, []);
+
+  const reset = useCallback((secretWord: string) => {
+    generationRef.current++;
+    wordRef.current = secretWord;
+    update(EMPTY_MEMORY);
+  }, [update]);
+
+  const compact = useCallback(async () => {
+    const count = planCompaction(memoryRef.current, settings.tokenBudget);
+    if (count === 0 || compactingRef.current) return;
+
+    compactingRef.current = true;
+    const generation = generationRef.current;
+    try {
+      const summary = await summarizeRef.current(wordRef.current, memoryRef.current, count);
+      // Exchanges are only ever appended, so the oldest `count` are still the ones summarized
+      if (generation === generationRef.current && summary) update(applySummary(memoryRef.current, count, summary));
+    } catch (error) {
+      if (isCancelled(error) || generation !== generationRef.current) return;
+      // Forgetting the oldest exchanges beats sending an ever-growing history
+      console.warn('Could not summarize the conversation:', error);
+      update(applySummary(memoryRef.current, count, memoryRef.current.summary));
+    } finally {
+      compactingRef.current = false;
+    }
+  }, [settings.tokenBudget, update]);
+
+  const remember = useCallback((exchange: Exchange) => {
+    if (!settings.enabled) return;
+    update(addExchange(memoryRef.current, exchange));
+    compact();
+  }, [settings.enabled, update, compact]);
+
+  const snapshot = useCallback((): MemorySnapshot => (
+    { secretWord: wordRef.current, memory: memoryRef.current }
+  ), []);
+
+  // Back to a snapshot; a summary still being written describes exchanges that may be gone
+  const restore = useCallback(({ secretWord, memory }: MemorySnapshot) => {
+    generationRef.current++;
+    wordRef.current = secretWord;
+    update(memory);
+  }, [update]);
+
+  // What to send with the next input; undefined when memory is off
+  const recall = useCallback(
+    () => settings.enabled ? memoryRef.current : undefined,
+    [settings.enabled]
+  );
+
+  return { tokens, reset, remember, recall, snapshot, restore };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import type { useWindowChannel } from '@/hooks/useWindowChannel';
+
+type WindowChannel = ReturnType<typeof useWindowChannel>;
+
+const HEARTBEAT_INTERVAL_MS = 2000;
+// Missing this many heartbeats in a row means the display is gone
+const PRESENCE_TIMEOUT_MS = 5000;
+
+/**
+ * Admin side of the heartbeat: pings the display and tracks whether it answers.
+ */
+export function useDisplayPresence(channel: Pick<WindowChannel, 'send' | 'subscribe'>) {
+  const { send, subscribe } = channel;
+  const [lastSeenAt, setLastSeenAt] = useState<number | null>(null);
+  const [latencyMs, setLatencyMs] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    return subscribe('pong', ({ sentAt }) => {
+      const receivedAt = Date.now();
+      setLastSeenAt(receivedAt);
+      setLatencyMs(receivedAt - sentAt);
+    });
+  }, [subscribe]);
+
+  useEffect(() => {
+    const beat = () => {
+      setNow(Date.now());
+      send({ type: 'ping', payload: { sentAt: Date.now() } });
+    };
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [send]);
+
+  const isDisplayConnected = lastSeenAt !== null && now - lastSeenAt < PRESENCE_TIMEOUT_MS;
+
+  return { isDisplayConnected, lastSeenAt, latencyMs };
+}
@@ -0,0 +1,372 @@
+import { useState, useCallback, useRef } from 'react';
+import {
+  createVerdictStreamParser,
+  parseVerdict,
+  VERDICT_JSON_SCHEMA,
+  type PartialVerdict,
+  type SantaVerdict,
+} from '@/lib/verdict';
+import { createLeakDetector, stableStreamPrefix, type LeakDetector, type LeakIncident, type LeakSource } from '@/lib/leakGuard';
+import { describeExchanges, historyMessages, summaryPrompt, type ConversationMemory } from '@/lib/conversationMemory';
+import { completeChat, isCancelled, modelFor, DEFAULT_LLM_SETTINGS, type LLMMessage, type LLMSettings, type LLMTask } from '@/lib/llmProviders';
+
+interface ChatOptions {
+  // When set, the completion is streamed and each new token is reported as it arrives
+  onToken?: (token: string) => void;
+  // Constrain the output, e.g. to a JSON schema
+  responseFormat?: object;
+  temperature?: number;
+  // Picks the model configured for this job
+  task?: LLMTask;
+  // Defaults to the current round's
+  signal?: AbortSignal;
+}
+
+interface VerdictOptions {
+  // Reply text and verdict as they stream in
+  onPartial?: (partial: PartialVerdict) => void;
+  // A malformed reply is being retried; anything shown from the failed attempt is stale
+  onRetry?: (attempt: number, error: Error) => void;
+  // Other accepted answers, kept out of the reply just like the secret word
+  aliases?: string[];
+  // What was asked and answered earlier this word
+  memory?: ConversationMemory;
+}
+
+// Malformed structured output is retried, a little cooler each time
+const MAX_VERDICT_ATTEMPTS = 3;
+const VERDICT_TEMPERATURES = [0.7, 0.4, 0.2];
+
+const VERDICT_FORMAT_INSTRUCTIONS = `Reply ONLY with a JSON object with these fields, in this order:
+- "kind": "question" or "guess"
+- "verdict": "correct" or "incorrect" for a guess, "none" for a question
+- "reply": what you say to the player (1-2 festive sentences, never the secret word unless they guessed it)
+- "confidence": a number from 0 to 1 for how sure you are of the kind and verdict`;
+
+// A riddle or hint that gives the word away is asked for again this many times before redacting
+const MAX_LEAK_RETRIES = 2;
+const LEAK_RETRY_PROMPT = 'That gives away the secret word! Say it again without using the secret word or any form of it.';
+
+const LEAK_SOURCE_TASKS: Record<LeakSource, LLMTask> = {
+  riddle: 'riddle',
+  hint: 'hint',
+  reply: 'judge',
+};
+
+interface UseLLMOptions {
+  // Which runtime to talk to, and where
+  settings?: LLMSettings;
+  onError?: (error: Error) => void;
+  // Model output contained the secret word and was regenerated or redacted
+  onLeak?: (incident: LeakIncident) => void;
+}
+
+export function useLLM(options: UseLLMOptions = {}) {
+  const { settings = DEFAULT_LLM_SETTINGS, onError, onLeak } = options;
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const leakCountRef = useRef(0);
+  // Every request belongs to the round that made it; cancelRequests() ends the round
+  const roundRef = useRef(new AbortController());
+
+  const cancelRequests = useCallback(() => {
+    roundRef.current.abort();
+    roundRef.current = new AbortController();
+  }, []);
+
+  const chat = useCallback(async (messages: LLMMessage[], chatOptions: ChatOptions = {}): Promise<string> => {
+    const { onToken, responseFormat, temperature = 0.7, task, signal = roundRef.current.signal } = chatOptions;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      return await completeChat(
+        { ...settings, model: modelFor(settings, task) },
+        { messages, temperature, maxTokens: 500, responseFormat },
+        { onToken, signal }
+      );
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      // Called off on purpose, nothing went wrong
+      if (isCancelled(error)) throw error;
+      setError(error);
+      onError?.(error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [settings, onError]);
+
+  const reportLeak = useCallback((
+    source: LeakSource,
+    action: LeakIncident['action'],
+    matches: string[],
+    original: string
+  ) => {
+    const incident: LeakIncident = {
+      id: ++leakCountRef.current,
+      source,
+      action,
+      matches,
+      original,
+      timestamp: Date.now(),
+    };
+    console.warn(`Secret word leaked in ${source} (${action}):`, matches.join(', '));
+    onLeak?.(incident);
+  }, [onLeak]);
+
+  // Plain chat for text the players will see: regenerate while it leaks the word, then redact
+  const chatWithoutLeaks = useCallback(async (
+    source: LeakSource,
+    messages: LLMMessage[],
+    detector: LeakDetector
+  ): Promise<string> => {
+    const task = LEAK_SOURCE_TASKS[source];
+    // Retries stay in the round the first attempt was made for
+    const signal = roundRef.current.signal;
+    const original = await chat(messages, { task, signal });
+    const leaked = detector.find(original);
+    if (leaked.length === 0) return original;
+
+    let text = original;
+    for (let retry = 0; retry < MAX_LEAK_RETRIES; retry++) {
+      text = await chat([
+        ...messages,
+        { role: 'assistant', content: text },
+        { role: 'user', content: LEAK_RETRY_PROMPT },
+      ], { task, signal });
+      if (detector.find(text).length === 0) {
+        reportLeak(source, 'regenerated', leaked, original);
+        return text;
+      }
+    }
+
+    reportLeak(source, 'redacted', leaked, original);
+    return detector.redact(text);
+  }, [chat, reportLeak]);
+
+  // Replies stream straight into speech, so a leak there is redacted rather than regenerated.
+  // A correct guess is the one time Santa may say the word.
+  const guardReply = useCallback((result: SantaVerdict, detector: LeakDetector): SantaVerdict => {
+    if (result.verdict === 'correct') return result;
+    const leaked = detector.find(result.reply);
+    if (leaked.length === 0) return result;
+
+    reportLeak('reply', 'redacted', leaked, result.reply);
+    return { ...result, reply: detector.redact(result.reply) };
+  }, [reportLeak]);
+
+  // Ask for a structured verdict, validating it and retrying malformed output
+  const chatForVerdict = useCallback(async (
+    messages: LLMMessage[],
+    verdictOptions: VerdictOptions = {}
+  ): Promise<SantaVerdict> => {
+    const { onPartial, onRetry } = verdictOptions;
+    const signal = roundRef.current.signal;
+    let lastError: Error = new Error('No verdict');
+
+    for (let attempt = 0; attempt < MAX_VERDICT_ATTEMPTS; attempt++) {
+      if (attempt > 0) onRetry?.(attempt, lastError);
+
+      const parser = createVerdictStreamParser();
+      const raw = await chat(messages, {
+        responseFormat: VERDICT_JSON_SCHEMA,
+        task: 'judge',
+        signal,
+        temperature: VERDICT_TEMPERATURES[attempt],
+        onToken: onPartial ? (token) => onPartial(parser.push(token)) : undefined,
+      });
+
+      try {
+        return parseVerdict(raw);
+      } catch (err) {
+        lastError = err instanceof Error ? err : new Error(String(err));
+        console.warn(`Verdict attempt ${attempt + 1} failed:`, lastError.message);
+      }
+    }
+
+    throw lastError;
+  }, [chat]);
+
+  const generateRiddle = useCallback(async (
+    word: string,
+    difficulty: 'easy' | 'medium' | 'hard',
+    aliases: string[] = []
+  ): Promise<string> => {
+    const difficultyPrompts = {
+      easy: 'Create a very simple riddle that almost gives away the answer. Use very direct hints.',
+      medium: 'Create a moderately challenging riddle with clear but not obvious hints.',
+      hard: 'Create a cryptic and challenging riddle with subtle, indirect hints.',
+    };
+
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `You are a Christmas elf who creates riddles for a guessing game. ${difficultyPrompts[difficulty]} The riddle should be festive and fun. Only output the riddle itself, nothing else. Keep it to 2-3 sentences maximum.`,
+      },
+      {
+        role: 'user',
+        content: `Create a riddle for the word: "${word}"`,
+      },
+    ];
+
+    return chatWithoutLeaks('riddle', messages, createLeakDetector(word, aliases));
+  }, [chatWithoutLeaks]);
+
+  const evaluateGuess = useCallback(async (
+    secretWord: string,
+    guess: string,
+    riddle: string
+  ): Promise<SantaVerdict> => {
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `You are a friendly Christmas game host. The secret word is "${secretWord}". The riddle given was: "${riddle}". 
+        
+Evaluate if the player's guess is correct. Consider:
+- Exact matches are definitely correct
+- Very close variations (plurals, slight misspellings) should be accepted
+- Synonyms or related words should be encouraged but marked as incorrect with a hint
+
+Respond naturally and festively. If correct, celebrate! If wrong, give a gentle hint without revealing the answer. The input is always a guess.
+
+${VERDICT_FORMAT_INSTRUCTIONS}`,
+      },
+      {
+        role: 'user',
+        content: `The player guessed: "${guess}"`,
+      },
+    ];
+
+    const result = await chatForVerdict(messages);
+    return guardReply(
+      { ...result, kind: 'guess', verdict: result.verdict === 'correct' ? 'correct' : 'incorrect' },
+      createLeakDetector(secretWord)
+    );
+  }, [chatForVerdict, guardReply]);
+
+  const generateHint = useCallback(async (
+    secretWord: string,
+    riddle: string,
+    hintNumber: number,
+    aliases: string[] = []
+  ): Promise<string> => {
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `You are a helpful Christmas elf giving hints for a word guessing game. The secret word is "${secretWord}". The original riddle was: "${riddle}". This is hint number ${hintNumber}.
+        
+Give a progressively more helpful hint. For hint 1, be subtle. For hint 2, be more direct. For hint 3+, give very strong hints without saying the word directly. Keep the hint to one sentence and make it festive!`,
+      },
+      {
+        role: 'user',
+        content: 'Give me a hint!',
+      },
+    ];
+
+    return chatWithoutLeaks('hint', messages, createLeakDetector(secretWord, aliases));
+  }, [chatWithoutLeaks]);
+
+  // Santa's "here's why it fits" once the answer is out, so no leak guard
+  const explainAnswer = useCallback(async (word: string, riddle: string): Promise<string> => {
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `You are Santa, revealing the answer in a Christmas riddle game. The answer was "${word}". The riddle was: "${riddle}".
+
+In one or two short, festive sentences, explain why the riddle fits the answer by pointing out its clues. Only output the explanation.`,
+      },
+      {
+        role: 'user',
+        content: 'Why does the riddle fit?',
+      },
+    ];
+
+    return (await chat(messages, { task: 'riddle' })).trim();
+  }, [chat]);
+
+  // Handle any user input (questions or guesses)
+  // With onPartial the reply streams in, and the verdict is reported as soon as the model commits to it
+  const handleUserInput = useCallback(async (
+    secretWord: string,
+    userInput: string,
+    riddle: string,
+    verdictOptions: VerdictOptions = {}
+  ): Promise<SantaVerdict> => {
+    const { memory } = verdictOptions;
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `You are a friendly Christmas game host named Santa. The secret word is "${secretWord}". The riddle given was: "${riddle}". 
+
+The player can either:
+1. Ask questions about the riddle (e.g., "Is it something you eat?", "Is it red?", "Can you give me another clue?")
+2. Make a guess at the answer
+
+Determine if the input is a QUESTION or a GUESS:
+- Questions typically start with "is", "are", "can", "does", "what", "how", "why", etc. or end with "?"
+- Guesses are typically single words or short phrases stating an answer
+
+If it's a QUESTION: Answer helpfully without revealing the secret word. You can say yes/no or give hints.
+If it's a GUESS: Evaluate if correct. Consider exact matches, plurals, and close variations as correct. Celebrate a correct guess; give encouragement for a wrong one.
+Stay consistent with what you already told the players this round.
+
+${VERDICT_FORMAT_INSTRUCTIONS}${memory ? summaryPrompt(memory) : ''}`,
+      },
+      ...(memory ? historyMessages(memory) : []),
+      {
+        role: 'user',
+        content: userInput,
+      },
+    ];
+
+    const { onPartial, aliases = [] } = verdictOptions;
+    const detector = createLeakDetector(secretWord, aliases);
+
+    // Only release streamed text once it can no longer turn into the secret word.
+    // Even a "correct" stream stays redacted: it may be a mis-tagged question or fail validation.
+    // The word itself goes out with the validated verdict.
+    const result = await chatForVerdict(messages, {
+      ...verdictOptions,
+      onPartial: onPartial && ((partial) => {
+        onPartial({ ...partial, reply: stableStreamPrefix(detector.redact(partial.reply), detector.maxWords) });
+      }),
+    });
+    return guardReply(result, detector);
+  }, [chatForVerdict, guardReply]);
+
+  // Condense the oldest `count` exchanges of a word's conversation, together with any earlier summary
+  const summarizeConversation = useCallback(async (
+    secretWord: string,
+    memory: ConversationMemory,
+    count: number
+  ): Promise<string> => {
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `You keep notes for Santa, the host of a Christmas riddle game. The secret word is "${secretWord}".
+
+Summarize what the players asked or guessed and what Santa told them, keeping every fact Santa confirmed or ruled out and every wrong guess. Use at most three short sentences. Only output the summary.`,
+      },
+      {
+        role: 'user',
+        content: `${memory.summary ? `Summary so far: ${memory.summary}\n\n` : ''}New exchanges:\n${describeExchanges(memory.exchanges.slice(0, count))}`,
+      },
+    ];
+
+    return (await chat(messages, { task: 'judge', temperature: 0.2 })).trim();
+  }, [chat]);
+
+  return {
+    isLoading,
+    error,
+    chat,
+    cancelRequests,
+    generateRiddle,
+    evaluateGuess,
+    generateHint,
+    explainAnswer,
+    handleUserInput,
+    summarizeConversation,
+  };
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { listModels, DEFAULT_LLM_SETTINGS, type LLMSettings } from '@/lib/llmProviders';
+
+const HEALTH_INTERVAL_MS = 15000;
+const HEALTH_TIMEOUT_MS = 5000;
+
+export type LLMHealthStatus = 'checking' | 'online' | 'offline';
+
+/**
+ * Polls the model server's model list: whether it answers, how fast, and what it has installed.
+ */
+export function useLLMHealth(settings: LLMSettings) {
+  const { provider, baseUrl, apiKey } = settings;
+  const [status, setStatus] = useState<LLMHealthStatus>('checking');
+  const [latencyMs, setLatencyMs] = useState<number | null>(null);
+  const [models, setModels] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Only the newest check may report, so a slow answer from an old address can't win
+  const checkIdRef = useRef(0);
+
+  const check = useCallback(async () => {
+    const id = ++checkIdRef.current;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+    const startedAt = performance.now();
+
+    try {
+      const found = await listModels({ ...DEFAULT_LLM_SETTINGS, provider, baseUrl, apiKey }, controller.signal);
+      if (id !== checkIdRef.current) return;
+      setStatus('online');
+      setLatencyMs(Math.round(performance.now() - startedAt));
+      setModels(found);
+      setError(null);
+    } catch (err) {
+      if (id !== checkIdRef.current) return;
+      setStatus('offline');
+      setLatencyMs(null);
+      setError(controller.signal.aborted ? 'No answer' : err instanceof Error ? err.message : String(err));
+    } finally {
+      clearTimeout(timeout);
+    }
+  }, [provider, baseUrl, apiKey]);
+
+  useEffect(() => {
+    setStatus('checking');
+    check();
+    const interval = setInterval(check, HEALTH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [check]);
+
+  return { status, latencyMs, models, error, refresh: check };
+}
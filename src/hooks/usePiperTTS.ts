@@ -1,16 +1,97 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { applyOutputDevice } from '@/lib/audioDevices';
+import { computeEnvelope, envelopePeak } from '@/lib/echoGate';
+import { takeSentences } from '@/lib/sentences';
 
 interface UsePiperTTSOptions {
   onStart?: () => void;
   onEnd?: () => void;
   voiceId?: string;
+  // Speaker to play Piper audio on (browser voices always use the system default)
+  sinkId?: string;
+  // Keep a loudness envelope of Piper audio so the mic can be compared against it
+  trackReference?: boolean;
+}
+
+interface ReferenceEnvelope {
+  envelope: Float32Array;
+  windowMs: number;
+}
+
+interface QueuedSentence {
+  text: string;
+  // Piper synthesis, started when the sentence is queued; null plays it with the browser voice
+  wav: Promise<Blob | null> | null;
+}
+
+interface SpeechSession {
+  buffer: string;
+  queue: QueuedSentence[];
+  synthChain: Promise<Blob | null>;
+  hasStarted: boolean;
+  isPlaying: boolean;
+  isEnded: boolean;
+  settle: () => void;
+}
+
+export interface SpeechStream {
+  push: (text: string) => void;
+  end: () => void;
+  /** Resolves once the speech has played out or was cut off */
+  finished: Promise<void>;
+}
+
+const REFERENCE_WINDOW_MS = 20;
+
+async function decodeReferenceEnvelope(wav: Blob): Promise<ReferenceEnvelope | null> {
+  const audioContext = new AudioContext();
+  try {
+    const buffer = await audioContext.decodeAudioData(await wav.arrayBuffer());
+    return {
+      envelope: computeEnvelope(buffer.getChannelData(0), buffer.sampleRate, REFERENCE_WINDOW_MS),
+      windowMs: REFERENCE_WINDOW_MS,
+    };
+  } catch (error) {
+    console.warn('Could not decode TTS reference signal:', error);
+    return null;
+  } finally {
+    audioContext.close();
+  }
+}
+
+// Speak one sentence with the browser voice, resolving when it finishes
+function speakWithBrowser(text: string): Promise<void> {
+  return new Promise((resolve) => {
+    if (!window.speechSynthesis) {
+      console.error('Browser speech synthesis not supported');
+      resolve();
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = 0.85;
+    utterance.pitch = 0.7;
+    utterance.volume = 1;
+
+    // Try to find an English voice
+    const voices = window.speechSynthesis.getVoices();
+    const englishVoice = voices.find(v => v.lang.startsWith('en'));
+    if (englishVoice) utterance.voice = englishVoice;
+
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+
+    window.speechSynthesis.speak(utterance);
+  });
 }
 
 export function usePiperTTS(options: UsePiperTTSOptions = {}) {
   const { 
     onStart, 
     onEnd, 
-    voiceId = 'en_US-norman-medium' 
+    voiceId = 'en_US-norman-medium',
+    sinkId,
+    trackReference = false,
   } = options;
 
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -20,6 +101,9 @@ export function usePiperTTS(options: UsePiperTTSOptions = {}) {
   const [useFallback, setUseFallback] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const ttsRef = useRef<typeof import('@mintplex-labs/piper-tts-web') | null>(null);
+  // Cleared by stop() so speech still synthesizing when interrupted never plays
+  const sessionRef = useRef<SpeechSession | null>(null);
+  const referenceRef = useRef<ReferenceEnvelope | null>(null);
 
   // Initialize Piper TTS
   useEffect(() => {
@@ -51,6 +135,8 @@ export function usePiperTTS(options: UsePiperTTSOptions = {}) {
     initPiper();
 
     return () => {
+      sessionRef.current?.settle();
+      sessionRef.current = null;
       if (audioRef.current) {
         audioRef.current.pause();
         audioRef.current = null;
@@ -58,107 +144,171 @@ export function usePiperTTS(options: UsePiperTTSOptions = {}) {
     };
   }, [voiceId]);
 
-  const speakWithPiper = useCallback(async (text: string) => {
-    if (!ttsRef.current || !isPiperReady) {
-      throw new Error('Piper TTS not ready');
+  // Sessions outlive the render that started them, so read the latest options from a ref
+  const latestRef = useRef({ onStart, onEnd, voiceId, sinkId, trackReference, isPiperReady, useFallback });
+  latestRef.current = { onStart, onEnd, voiceId, sinkId, trackReference, isPiperReady, useFallback };
+
+  const stop = useCallback(() => {
+    sessionRef.current?.settle();
+    sessionRef.current = null;
+    referenceRef.current = null;
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current = null;
     }
+    window.speechSynthesis?.cancel();
+    setIsSpeaking(false);
+  }, []);
 
-    setIsSpeaking(true);
-    onStart?.();
+  // Start a logical utterance fed incrementally (e.g. from a streaming LLM reply).
+  // Sentences are synthesized one after another while earlier ones play, and callers
+  // see a single onStart when the first sentence is queued and a single onEnd after
+  // the last one finishes. Starting a new stream or calling stop() cancels this one.
+  const speakStream = useCallback((): SpeechStream => {
+    stop();
 
-    try {
-      const wav = await ttsRef.current.predict({
-        text,
-        voiceId,
-      });
+    let settle = () => {};
+    const finished = new Promise<void>((resolve) => {
+      settle = resolve;
+    });
+    const session: SpeechSession = {
+      buffer: '',
+      queue: [],
+      synthChain: Promise.resolve(null),
+      hasStarted: false,
+      isPlaying: false,
+      isEnded: false,
+      settle,
+    };
+    sessionRef.current = session;
+    const isCurrent = () => sessionRef.current === session;
+
+    const playWav = async (wav: Blob) => {
+      const { trackReference, sinkId } = latestRef.current;
+      referenceRef.current = trackReference ? await decodeReferenceEnvelope(wav) : null;
+      if (!isCurrent()) return;
 
       const audio = new Audio();
       audio.src = URL.createObjectURL(wav);
       audioRef.current = audio;
+      await applyOutputDevice(audio, sinkId);
+      if (!isCurrent()) return;
 
-      audio.onended = () => {
-        setIsSpeaking(false);
-        URL.revokeObjectURL(audio.src);
-        audioRef.current = null;
-        onEnd?.();
-      };
+      await new Promise<void>((resolve) => {
+        audio.onended = () => resolve();
+        audio.onerror = (e) => {
+          console.error('Audio playback error:', e);
+          resolve();
+        };
+        audio.play().catch((error) => {
+          console.error('Audio playback error:', error);
+          resolve();
+        });
+      });
 
-      audio.onerror = (e) => {
-        console.error('Audio playback error:', e);
-        setIsSpeaking(false);
-        audioRef.current = null;
-        onEnd?.();
-      };
-
-      await audio.play();
-    } catch (error) {
-      console.error('Piper TTS error:', error);
-      setIsSpeaking(false);
-      throw error;
-    }
-  }, [isPiperReady, voiceId, onStart, onEnd]);
+      URL.revokeObjectURL(audio.src);
+      if (audioRef.current === audio) audioRef.current = null;
+      referenceRef.current = null;
+    };
 
-  const speakWithBrowser = useCallback((text: string) => {
-    if (!window.speechSynthesis) {
-      console.error('Browser speech synthesis not supported');
-      return;
-    }
+    const finishIfDone = () => {
+      if (!isCurrent() || !session.isEnded || session.isPlaying || session.queue.length > 0) return;
+      sessionRef.current = null;
+      session.settle();
+      if (session.hasStarted) {
+        setIsSpeaking(false);
+        latestRef.current.onEnd?.();
+      }
+    };
 
-    window.speechSynthesis.cancel();
+    const playQueue = async () => {
+      if (session.isPlaying) return;
+      session.isPlaying = true;
 
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.rate = 0.85;
-    utterance.pitch = 0.7;
-    utterance.volume = 1;
+      while (isCurrent() && session.queue.length > 0) {
+        const next = session.queue.shift()!;
+        const wav = next.wav ? await next.wav : null;
+        if (!isCurrent()) return;
 
-    // Try to find an English voice
-    const voices = window.speechSynthesis.getVoices();
-    const englishVoice = voices.find(v => v.lang.startsWith('en'));
-    if (englishVoice) utterance.voice = englishVoice;
+        if (wav) {
+          await playWav(wav);
+        } else {
+          await speakWithBrowser(next.text);
+        }
+      }
 
-    utterance.onstart = () => {
-      setIsSpeaking(true);
-      onStart?.();
+      session.isPlaying = false;
+      finishIfDone();
     };
 
-    utterance.onend = () => {
-      setIsSpeaking(false);
-      onEnd?.();
+    const enqueue = (text: string) => {
+      const { isPiperReady, useFallback, voiceId, onStart } = latestRef.current;
+      const tts = ttsRef.current;
+
+      if (!session.hasStarted) {
+        session.hasStarted = true;
+        setIsSpeaking(true);
+        onStart?.();
+      }
+
+      let wav: Promise<Blob | null> | null = null;
+      if (tts && isPiperReady && !useFallback) {
+        // Piper runs one synthesis at a time; chaining keeps clips in order
+        wav = session.synthChain
+          .then(() => (isCurrent() ? tts.predict({ text, voiceId }) : null))
+          .catch((error) => {
+            console.warn('Piper TTS failed, falling back to browser:', error);
+            return null;
+          });
+        session.synthChain = wav;
+      }
+
+      session.queue.push({ text, wav });
+      playQueue();
     };
 
-    utterance.onerror = () => {
-      setIsSpeaking(false);
+    return {
+      push: (text: string) => {
+        if (!isCurrent() || session.isEnded) return;
+        const { sentences, rest } = takeSentences(session.buffer + text);
+        session.buffer = rest;
+        sentences.forEach(enqueue);
+      },
+      end: () => {
+        if (!isCurrent() || session.isEnded) return;
+        const tail = session.buffer.trim();
+        session.buffer = '';
+        if (tail) enqueue(tail);
+        session.isEnded = true;
+        finishIfDone();
+      },
+      finished,
     };
+  }, [stop]);
 
-    window.speechSynthesis.speak(utterance);
-  }, [onStart, onEnd]);
+  const speak = useCallback((text: string) => {
+    const stream = speakStream();
+    stream.push(text);
+    stream.end();
+    return stream.finished;
+  }, [speakStream]);
 
-  const speak = useCallback(async (text: string) => {
-    if (useFallback || !isPiperReady) {
-      speakWithBrowser(text);
-      return;
-    }
-
-    try {
-      await speakWithPiper(text);
-    } catch (error) {
-      console.warn('Piper TTS failed, falling back to browser:', error);
-      speakWithBrowser(text);
-    }
-  }, [useFallback, isPiperReady, speakWithPiper, speakWithBrowser]);
+  // Loudest Piper output over the last `lookbackMs` of playback, or null when
+  // there's no waveform to compare against (browser voice, nothing playing)
+  const getReferenceLevel = useCallback((lookbackMs: number): number | null => {
+    const reference = referenceRef.current;
+    const audio = audioRef.current;
+    if (!reference || !audio) return null;
 
-  const stop = useCallback(() => {
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current = null;
-    }
-    window.speechSynthesis?.cancel();
-    setIsSpeaking(false);
+    const positionMs = audio.currentTime * 1000;
+    return envelopePeak(reference.envelope, reference.windowMs, positionMs - lookbackMs, positionMs);
   }, []);
 
   return {
     speak,
+    speakStream,
     stop,
+    getReferenceLevel,
     isSpeaking,
     isLoading,
     isPiperReady,
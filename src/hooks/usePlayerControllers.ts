@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PlayerInfo, useWindowChannel } from '@/hooks/useWindowChannel';
+
+type WindowChannel = ReturnType<typeof useWindowChannel>;
+
+// Stops one excited phone from flooding the queue
+const PLAYER_INPUT_COOLDOWN_MS = 3000;
+
+export interface JoinedPlayer extends PlayerInfo {
+  joinedAt: number;
+  inputCount: number;
+}
+
+interface UsePlayerControllersOptions {
+  /**
+   * A player submitted a guess or question.
+   * Return null once it's queued, or the reason it was turned away.
+   */
+  onInput: (player: JoinedPlayer, text: string) => string | null;
+}
+
+/**
+ * Admin side of the phone controllers: registers players and forwards their input.
+ */
+export function usePlayerControllers(
+  channel: Pick<WindowChannel, 'send' | 'subscribe'>,
+  { onInput }: UsePlayerControllersOptions
+) {
+  const { send, subscribe } = channel;
+  const [players, setPlayers] = useState<JoinedPlayer[]>([]);
+  const playersRef = useRef<Map<string, JoinedPlayer>>(new Map());
+  const lastInputAtRef = useRef<Map<string, number>>(new Map());
+  const onInputRef = useRef(onInput);
+  onInputRef.current = onInput;
+
+  const publish = useCallback(() => {
+    setPlayers(Array.from(playersRef.current.values()));
+  }, []);
+
+  useEffect(() => {
+    const unsubJoin = subscribe('player_join', (info) => {
+      const name = info.name.trim();
+      const team = info.team.trim();
+      const taken = Array.from(playersRef.current.values()).some(
+        p => p.id !== info.id && p.name.toLowerCase() === name.toLowerCase()
+      );
+      if (taken) {
+        send({ type: 'player_welcome', payload: { playerId: info.id, accepted: false, reason: `"${name}" is already playing` } });
+        return;
+      }
+
+      // Rejoining (reload, reconnect) keeps the player's count
+      const existing = playersRef.current.get(info.id);
+      playersRef.current.set(info.id, {
+        id: info.id,
+        name,
+        team,
+        joinedAt: existing?.joinedAt ?? Date.now(),
+        inputCount: existing?.inputCount ?? 0,
+      });
+      publish();
+      send({ type: 'player_welcome', payload: { playerId: info.id, accepted: true } });
+    });
+
+    const unsubInput = subscribe('player_input', ({ playerId, inputId, text }) => {
+      const reject = (reason: string) => {
+        send({ type: 'player_input_status', payload: { playerId, inputId, status: 'rejected', reason } });
+      };
+
+      const player = playersRef.current.get(playerId);
+      if (!player) {
+        reject('Please join the game first');
+        return;
+      }
+
+      const now = Date.now();
+      if (now - (lastInputAtRef.current.get(playerId) ?? 0) < PLAYER_INPUT_COOLDOWN_MS) {
+        reject('Slow down a little, Santa is still thinking!');
+        return;
+      }
+
+      const reason = onInputRef.current(player, text.trim());
+      if (reason) {
+        reject(reason);
+        return;
+      }
+
+      lastInputAtRef.current.set(playerId, now);
+      playersRef.current.set(playerId, { ...player, inputCount: player.inputCount + 1 });
+      publish();
+      send({ type: 'player_input_status', payload: { playerId, inputId, status: 'queued' } });
+    });
+
+    return () => {
+      unsubJoin();
+      unsubInput();
+    };
+  }, [send, subscribe, publish]);
+
+  const removePlayer = useCallback((playerId: string) => {
+    playersRef.current.delete(playerId);
+    lastInputAtRef.current.delete(playerId);
+    publish();
+    send({ type: 'player_welcome', payload: { playerId, accepted: false, reason: 'The host removed you from the game' } });
+  }, [send, publish]);
+
+  return { players, removePlayer };
+}
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SantaVerdict } from '@/lib/verdict';
+
+export interface ModerationSettings {
+  enabled: boolean;
+  /** Approve a reply untouched after this long; 0 waits for the host */
+  timeoutSec: number;
+}
+
+export const DEFAULT_MODERATION_SETTINGS: ModerationSettings = {
+  enabled: false,
+  timeoutSec: 20,
+};
+
+export type ReviewDecision =
+  | { action: 'approve'; reply: string }
+  | { action: 'regenerate' }
+  | { action: 'discard' };
+
+export interface PendingReview {
+  id: number;
+  input: string;
+  // Phone player's name; room mic and typed input have none
+  from?: string;
+  verdict: SantaVerdict;
+  // When it goes out as is; null once the host takes over
+  autoApproveAt: number | null;
+}
+
+/**
+ * Holds Santa's replies for the host to approve, edit, regenerate or discard
+ * before anyone hears or sees them. One reply is under review at a time.
+ */
+export function useReplyModeration({ timeoutSec }: Pick<ModerationSettings, 'timeoutSec'>) {
+  const [pending, setPending] = useState<PendingReview | null>(null);
+  const resolveRef = useRef<((decision: ReviewDecision) => void) | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reviewIdRef = useRef(0);
+
+  const clearAutoApprove = useCallback(() => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    timeoutRef.current = null;
+  }, []);
+
+  const decide = useCallback((decision: ReviewDecision) => {
+    clearAutoApprove();
+    const resolve = resolveRef.current;
+    resolveRef.current = null;
+    setPending(null);
+    resolve?.(decision);
+  }, [clearAutoApprove]);
+
+  const requestReview = useCallback((review: Omit<PendingReview, 'id' | 'autoApproveAt'>) => {
+    decide({ action: 'discard' });
+    return new Promise<ReviewDecision>((resolve) => {
+      resolveRef.current = resolve;
+      const timeoutMs = timeoutSec * 1000;
+      setPending({ ...review, id: ++reviewIdRef.current, autoApproveAt: timeoutMs > 0 ? Date.now() + timeoutMs : null });
+      if (timeoutMs > 0) {
+        timeoutRef.current = setTimeout(() => decide({ action: 'approve', reply: review.verdict.reply }), timeoutMs);
+      }
+    });
+  }, [timeoutSec, decide]);
+
+  // The host started editing: don't send their half-finished text
+  const hold = useCallback(() => {
+    clearAutoApprove();
+    setPending(prev => prev && prev.autoApproveAt !== null ? { ...prev, autoApproveAt: null } : prev);
+  }, [clearAutoApprove]);
+
+  const cancel = useCallback(() => decide({ action: 'discard' }), [decide]);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { pending, requestReview, decide, hold, cancel };
+}
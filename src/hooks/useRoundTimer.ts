@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from 'react';
+import { dueTimerActions, timeLeft, RoundTimer, RoundTimerSettings, TimerAction } from '@/lib/roundTimer';
+
+const TICK_MS = 250;
+// Timers whose fired actions are remembered; enough to cover the undo history
+const MAX_REMEMBERED_TIMERS = 20;
+
+interface UseRoundTimerOptions {
+  onAction: (action: TimerAction) => void;
+}
+
+/**
+ * Admin side of the round timer: counts down the current word's timer
+ * and fires each threshold action once, even when an override or undo
+ * puts back a timer that was already running.
+ */
+export function useRoundTimer(
+  timer: RoundTimer | null,
+  settings: RoundTimerSettings,
+  { onAction }: UseRoundTimerOptions
+) {
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // Actions already fired, per timer (keyed on endsAt, which is unique per word)
+  const firedRef = useRef(new Map<number, Set<TimerAction>>());
+
+  useEffect(() => {
+    if (!timer) {
+      setRemainingMs(null);
+      return;
+    }
+
+    // A fresh timer (new word) gets a fresh set of actions; a restored one keeps its own
+    const firedByTimer = firedRef.current;
+    let fired = firedByTimer.get(timer.endsAt);
+    if (!fired) {
+      fired = new Set<TimerAction>();
+      firedByTimer.set(timer.endsAt, fired);
+      if (firedByTimer.size > MAX_REMEMBERED_TIMERS) {
+        firedByTimer.delete(firedByTimer.keys().next().value);
+      }
+    }
+    const tick = () => {
+      setRemainingMs(timeLeft(timer));
+      for (const action of dueTimerActions(settingsRef.current, timer)) {
+        if (fired.has(action)) continue;
+        fired.add(action);
+        onActionRef.current(action);
+      }
+    };
+    tick();
+    const interval = setInterval(tick, TICK_MS);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  return { remainingMs };
+}
@@ -1,114 +1,219 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { useWhisperSTT, WHISPER_SAMPLE_RATE } from '@/hooks/useWhisperSTT';
+import { getMicrophoneStream } from '@/lib/audioDevices';
+import {
+  createVoiceActivityDetector,
+  frameRms,
+  resample,
+  voiceBandRatio,
+  type VadOptions,
+  type VoiceActivityDetector,
+} from '@/lib/vad';
 
 interface UseSpeechRecognitionOptions {
   onResult?: (transcript: string) => void;
   onStart?: () => void;
   onEnd?: () => void;
-  continuous?: boolean;
+  onSpeechStart?: () => void;
+  // Fires once an utterance has lasted at least the VAD's minimum speech duration
+  onSpeechConfirmed?: () => void;
+  onSpeechEnd?: () => void;
+  // Return false to treat a mic frame as silence (e.g. it's Santa's own voice)
+  frameGate?: (frame: Float32Array, rms: number) => boolean;
+  vad?: Partial<VadOptions>;
+  modelId?: string;
+  deviceId?: string;
 }
 
-// Cross-browser speech recognition using MediaRecorder
-// This captures audio for visualization and provides manual transcription via text input
-// Works on all modern browsers (Chrome, Firefox, Safari, Edge)
+// ~20ms at 48kHz; small frames keep onset detection snappy
+const FRAME_SIZE = 1024;
+
+// Cross-browser speech recognition using Web Audio + on-device Whisper
+// Mic frames go through voice activity detection; each utterance is transcribed in a worker
+// Works offline once the model is cached; manual text input remains as a backup
 export function useSpeechRecognition(options: UseSpeechRecognitionOptions = {}) {
-  const { onResult, onStart, onEnd, continuous = true } = options;
+  const {
+    onResult,
+    onStart,
+    onEnd,
+    onSpeechStart,
+    onSpeechConfirmed,
+    onSpeechEnd,
+    frameGate,
+    vad,
+    modelId,
+    deviceId,
+  } = options;
   const [isListening, setIsListening] = useState(false);
-  const [isSupported] = useState(true); // MediaRecorder is widely supported
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const [isSupported] = useState(() => typeof window !== 'undefined' && 'AudioContext' in window);
+  const [isSpeechDetected, setIsSpeechDetected] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [transcript, setTranscript] = useState('');
   const streamRef = useRef<MediaStream | null>(null);
-  const isIntentionalStopRef = useRef(false);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
+  const isStartingRef = useRef(false);
 
-  // Cleanup on unmount
+  const {
+    transcribe,
+    isReady: isModelReady,
+    isLoading: isModelLoading,
+    downloadProgress: modelDownloadProgress,
+    error: modelError,
+  } = useWhisperSTT({ modelId });
+
+  // Audio callbacks outlive the render that created them, so read the latest handlers from refs
+  const callbacksRef = useRef({ onResult, onSpeechStart, onSpeechConfirmed, onSpeechEnd, frameGate, transcribe });
+  callbacksRef.current = { onResult, onSpeechStart, onSpeechConfirmed, onSpeechEnd, frameGate, transcribe };
+
+  // VAD thresholds can change while listening (settings, barge-in guard)
+  const vadRef = useRef(vad);
+  vadRef.current = vad;
   useEffect(() => {
-    return () => {
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-      }
-      if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-        mediaRecorderRef.current.stop();
+    detectorRef.current?.configure(vad ?? {});
+  }, [vad]);
+
+  const transcribeUtterance = useCallback(async (clip: Float32Array, sampleRate: number) => {
+    setIsTranscribing(true);
+    try {
+      const text = await callbacksRef.current.transcribe(resample(clip, sampleRate, WHISPER_SAMPLE_RATE));
+      if (text) {
+        setTranscript(text);
+        callbacksRef.current.onResult?.(text);
       }
-    };
+    } catch (err) {
+      console.warn('Could not transcribe utterance:', err);
+    } finally {
+      setIsTranscribing(false);
+    }
+  }, []);
+
+  const teardown = useCallback(() => {
+    if (processorRef.current) {
+      processorRef.current.onaudioprocess = null;
+      processorRef.current.disconnect();
+      processorRef.current = null;
+    }
+    if (audioContextRef.current) {
+      audioContextRef.current.close();
+      audioContextRef.current = null;
+    }
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    }
+    detectorRef.current = null;
   }, []);
 
+  // Cleanup on unmount
+  useEffect(() => teardown, [teardown]);
+
   const startListening = useCallback(async () => {
-    if (isListening) return;
-    
-    isIntentionalStopRef.current = false;
+    if (isStartingRef.current || streamRef.current) return;
 
+    isStartingRef.current = true;
     try {
       // Request microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        } 
-      });
-      
+      const stream = await getMicrophoneStream(deviceId);
       streamRef.current = stream;
-      
-      // Create MediaRecorder for audio capture
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: MediaRecorder.isTypeSupported('audio/webm') 
-          ? 'audio/webm' 
-          : 'audio/mp4'
+
+      // Device unplugged mid-game: reopen on whatever mic is available now
+      stream.getAudioTracks().forEach(track => {
+        track.addEventListener('ended', () => {
+          if (streamRef.current !== stream) return;
+          console.warn('Microphone disconnected, reconnecting...');
+          teardown();
+          setIsSpeechDetected(false);
+          startListeningRef.current();
+        });
       });
-      
-      mediaRecorderRef.current = mediaRecorder;
-      
-      mediaRecorder.onstart = () => {
-        setIsListening(true);
-        onStart?.();
-      };
-      
-      mediaRecorder.onstop = () => {
-        setIsListening(false);
-        onEnd?.();
-        
-        // Auto-restart if not intentionally stopped and continuous mode
-        if (!isIntentionalStopRef.current && continuous && streamRef.current) {
-          setTimeout(() => {
-            if (!isIntentionalStopRef.current && mediaRecorderRef.current) {
-              try {
-                mediaRecorderRef.current.start();
-              } catch (e) {
-                console.warn('Could not restart recording:', e);
-              }
-            }
-          }, 200);
+
+      const audioContext = new AudioContext();
+      audioContextRef.current = audioContext;
+      const source = audioContext.createMediaStreamSource(stream);
+
+      // Analyser feeds the spectral half of the VAD
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 512;
+      const spectrum = new Float32Array(analyser.frequencyBinCount);
+
+      const processor = audioContext.createScriptProcessor(FRAME_SIZE, 1, 1);
+      processorRef.current = processor;
+
+      const detector = createVoiceActivityDetector(audioContext.sampleRate, vadRef.current);
+      detectorRef.current = detector;
+
+      processor.onaudioprocess = (event) => {
+        // The input buffer is reused between callbacks, so copy the frame
+        let frame = event.inputBuffer.getChannelData(0).slice();
+        analyser.getFloatFrequencyData(spectrum);
+
+        // Gated frames still advance the VAD as silence so open utterances can close
+        const gate = callbacksRef.current.frameGate;
+        if (gate && !gate(frame, frameRms(frame))) {
+          frame = new Float32Array(frame.length);
+        }
+
+        const result = detector.process(frame, voiceBandRatio(spectrum, audioContext.sampleRate));
+        if (!result) return;
+
+        if (result.type === 'speech_start') {
+          setIsSpeechDetected(true);
+          callbacksRef.current.onSpeechStart?.();
+        } else if (result.type === 'speech_confirmed') {
+          callbacksRef.current.onSpeechConfirmed?.();
+        } else {
+          setIsSpeechDetected(false);
+          callbacksRef.current.onSpeechEnd?.();
+          if (result.type === 'speech_end') {
+            transcribeUtterance(result.clip, audioContext.sampleRate);
+          }
         }
       };
-      
-      mediaRecorder.onerror = (event) => {
-        console.error('MediaRecorder error:', event);
-        setIsListening(false);
-      };
-      
-      // Start recording
-      mediaRecorder.start();
-      
+
+      source.connect(analyser);
+      source.connect(processor);
+      // ScriptProcessor only runs while connected to the destination; it outputs silence
+      processor.connect(audioContext.destination);
+
+      setIsListening(true);
+      onStart?.();
     } catch (err) {
       console.error('Microphone access denied:', err);
+      teardown();
       setIsListening(false);
+    } finally {
+      isStartingRef.current = false;
     }
-  }, [isListening, continuous, onStart, onEnd]);
+  }, [deviceId, onStart, teardown, transcribeUtterance]);
 
-  const stopListening = useCallback(() => {
-    isIntentionalStopRef.current = true;
-    
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop();
-    }
-    
+  const startListeningRef = useRef(startListening);
+  startListeningRef.current = startListening;
+
+  // Switch mics on the fly when a different device is picked
+  const activeDeviceIdRef = useRef(deviceId);
+  useEffect(() => {
+    if (activeDeviceIdRef.current === deviceId) return;
+    activeDeviceIdRef.current = deviceId;
     if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
+      teardown();
+      startListening();
     }
-    
+  }, [deviceId, startListening, teardown]);
+
+  const stopListening = useCallback(() => {
+    // Drop any half-finished utterance rather than transcribing a cut-off word
+    if (detectorRef.current?.isSpeaking()) {
+      callbacksRef.current.onSpeechEnd?.();
+    }
+    teardown();
+    setIsSpeechDetected(false);
     setIsListening(false);
-  }, []);
+    onEnd?.();
+  }, [onEnd, teardown]);
 
-  // Manual transcript submission (since we're not using cloud STT)
+  // Manual transcript submission (backup when the mic can't be used)
   const submitTranscript = useCallback((text: string) => {
     if (text.trim()) {
       onResult?.(text.trim());
@@ -116,13 +221,19 @@ export function useSpeechRecognition(options: UseSpeechRecognitionOptions = {})
   }, [onResult]);
 
   const resetTranscript = useCallback(() => {
-    // No-op for this implementation
+    setTranscript('');
   }, []);
 
   return {
     isListening,
-    transcript: '', // Transcript comes from manual text input
+    isSpeechDetected,
+    transcript,
     isSupported,
+    isTranscribing,
+    isModelReady,
+    isModelLoading,
+    modelDownloadProgress,
+    modelError,
     startListening,
     stopListening,
     resetTranscript,
@@ -0,0 +1,105 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type { WhisperWorkerRequest, WhisperWorkerResponse } from '@/workers/whisper.worker';
+
+interface UseWhisperSTTOptions {
+  modelId?: string;
+}
+
+interface PendingTranscription {
+  resolve: (text: string) => void;
+  reject: (error: Error) => void;
+}
+
+// Whisper expects mono audio at 16kHz
+export const WHISPER_SAMPLE_RATE = 16000;
+
+// Whisper emits these for silence or noise instead of an empty transcript
+const NON_SPEECH_PATTERN = /^[\s.]*$|^\s*[[(][^\])]*[\])]\s*$/;
+
+export function useWhisperSTT(options: UseWhisperSTTOptions = {}) {
+  const { modelId = 'onnx-community/whisper-tiny.en' } = options;
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [isReady, setIsReady] = useState(false);
+  const [downloadProgress, setDownloadProgress] = useState(0);
+  const [error, setError] = useState<Error | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<Map<number, PendingTranscription>>(new Map());
+  const nextIdRef = useRef(0);
+
+  // Load the model in a worker (downloaded once, then served from cache)
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/whisper.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    const pending = pendingRef.current;
+
+    setIsReady(false);
+    setIsLoading(true);
+    setError(null);
+
+    worker.onmessage = (event: MessageEvent<WhisperWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          setDownloadProgress(message.progress);
+          break;
+        case 'ready':
+          setIsLoading(false);
+          setIsReady(true);
+          console.log('Whisper STT ready with model:', message.modelId);
+          break;
+        case 'result':
+          pending.get(message.id)?.resolve(message.text);
+          pending.delete(message.id);
+          break;
+        case 'error': {
+          const err = new Error(message.message);
+          if (message.id !== undefined) {
+            pending.get(message.id)?.reject(err);
+            pending.delete(message.id);
+          } else {
+            console.warn('Whisper STT failed to initialize:', err);
+            setIsLoading(false);
+            setError(err);
+          }
+          break;
+        }
+      }
+    };
+
+    worker.postMessage({ type: 'load', modelId } satisfies WhisperWorkerRequest);
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      pending.forEach(p => p.reject(new Error('Whisper STT disposed')));
+      pending.clear();
+    };
+  }, [modelId]);
+
+  const transcribe = useCallback((audio: Float32Array): Promise<string> => {
+    const worker = workerRef.current;
+    if (!worker || !isReady) {
+      return Promise.reject(new Error('Whisper STT not ready'));
+    }
+
+    const id = nextIdRef.current++;
+    return new Promise<string>((resolve, reject) => {
+      pendingRef.current.set(id, {
+        resolve: (text) => resolve(NON_SPEECH_PATTERN.test(text) ? '' : text),
+        reject,
+      });
+      worker.postMessage({ type: 'transcribe', id, audio } satisfies WhisperWorkerRequest, [audio.buffer]);
+    });
+  }, [isReady]);
+
+  return {
+    transcribe,
+    isReady,
+    isLoading,
+    downloadProgress,
+    error,
+    modelId,
+  };
+}
+
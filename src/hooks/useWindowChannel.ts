@@ -1,66 +1,153 @@
-import { useEffect, useCallback, useRef } from 'react';
-
-export type CharacterEmotion = 'listening' | 'thinking' | 'happy' | 'sad' | 'neutral';
-
-export interface GameState {
-  isGameActive: boolean;
-  currentWord: string;
-  currentRiddle: string;
-  hintsRemaining: number;
-  hintsUsed: number;
-  emotion: CharacterEmotion;
-  statusText: string;
-  customDisplay?: {
-    type: 'image' | 'video' | 'text';
-    content: string;
-  };
-  hintText?: string;
+import { useEffect, useCallback, useRef, useState } from 'react';
+import {
+  createEnvelope,
+  parseEnvelope,
+  toPublicGameState,
+  PROTOCOL_VERSION,
+  type ChannelMessage,
+  type ChannelMessageType,
+  type ChannelRole,
+  type ChannelPayload,
+  type CharacterEmotion,
+  type CustomDisplay,
+  type GameState,
+} from '@/lib/channelProtocol';
+import {
+  createBroadcastTransport,
+  createRelayTransport,
+  type ChannelTransport,
+  type RelayConfig,
+  type TransportStatus,
+} from '@/lib/channelTransport';
+
+export type {
+  CharacterEmotion,
+  ChannelMessage,
+  ChannelRole,
+  DisplaySnapshot,
+  GameState,
+  PlayerInfo,
+  PublicGameState,
+  RevealedAnswer,
+} from '@/lib/channelProtocol';
+
+export interface VersionMismatch {
+  localVersion: number;
+  // null when the other window runs a build from before versioning
+  remoteVersion: number | null;
 }
 
-export interface ChannelMessage {
-  type: 'game_state' | 'start_game' | 'give_hint' | 'set_emotion' | 'set_display' | 'mute' | 'ping' | 'pong' | 'ai_response';
-  payload?: any;
+const CHANNEL_NAME = 'christmas-riddle-game';
+
+export function describeVersionMismatch({ localVersion, remoteVersion }: VersionMismatch) {
+  const remote = remoteVersion === null ? 'an older, unversioned build' : `protocol v${remoteVersion}`;
+  return `This window speaks protocol v${localVersion} but the other window runs ${remote}. Reload both windows so they run the same version.`;
 }
 
-const CHANNEL_NAME = 'christmas-riddle-game';
+interface UseWindowChannelOptions {
+  // Also (admin) or instead (display, player) talk through the LAN relay
+  relay?: RelayConfig | null;
+}
+
+export function useWindowChannel(role: ChannelRole, options: UseWindowChannelOptions = {}) {
+  const { relay = null } = options;
+  const isAdmin = role === 'admin';
+  const transportsRef = useRef<ChannelTransport[]>([]);
+  const listenersRef = useRef<Map<ChannelMessageType, Set<(payload: unknown) => void>>>(new Map());
+  const [versionMismatch, setVersionMismatch] = useState<VersionMismatch | null>(null);
+  const [relayStatus, setRelayStatus] = useState<TransportStatus | null>(null);
+
+  const send = useCallback((message: ChannelMessage) => {
+    const envelope = createEnvelope(message);
+    transportsRef.current.forEach(transport => transport.send(envelope));
+  }, []);
 
-export function useWindowChannel(isAdmin: boolean) {
-  const channelRef = useRef<BroadcastChannel | null>(null);
-  const listenersRef = useRef<Map<string, Set<(payload: any) => void>>>(new Map());
+  const relayUrl = relay?.url;
+  const relayRoom = relay?.room;
+  const relayAdminKey = relay?.adminKey;
 
   useEffect(() => {
-    channelRef.current = new BroadcastChannel(CHANNEL_NAME);
+    const onMessage = (data: unknown) => {
+      const parsed = parseEnvelope(data);
+      if (parsed.ok === false) {
+        if (parsed.reason === 'version') {
+          setVersionMismatch({ localVersion: PROTOCOL_VERSION, remoteVersion: parsed.remoteVersion });
+        } else {
+          console.warn('Ignoring invalid channel message:', parsed.error);
+        }
+        return;
+      }
 
-    channelRef.current.onmessage = (event: MessageEvent<ChannelMessage>) => {
-      const { type, payload } = event.data;
-      const listeners = listenersRef.current.get(type);
-      if (listeners) {
-        listeners.forEach(callback => callback(payload));
+      const { message } = parsed;
+      if (message.type === 'hello' || message.type === 'hello_ack') {
+        // Ignore other windows of our own kind
+        if (message.payload.role === role) return;
+        setVersionMismatch(null);
+        if (message.type === 'hello') {
+          send({ type: 'hello_ack', payload: { role } });
+        }
       }
+
+      listenersRef.current.get(message.type)?.forEach(callback => callback(message.payload));
     };
 
+    // Announce ourselves so a peer on a different build is detected right away
+    const announce = () => send({ type: 'hello', payload: { role } });
+
+    // The admin serves local windows and the relay at once; a relayed display or phone only needs the relay
+    const transports: ChannelTransport[] = [];
+    if (isAdmin || !relayUrl) {
+      transports.push(createBroadcastTransport(CHANNEL_NAME, { onMessage }));
+    }
+    if (relayUrl && relayRoom) {
+      transports.push(createRelayTransport({ url: relayUrl, room: relayRoom, adminKey: relayAdminKey }, role, {
+        onMessage,
+        onStatus: (status) => {
+          setRelayStatus(status);
+          // Say hello again after every (re)connect so the other side resyncs
+          if (status === 'open') announce();
+        },
+      }));
+    }
+    transportsRef.current = transports;
+    announce();
+
     return () => {
-      channelRef.current?.close();
+      transports.forEach(transport => transport.close());
+      transportsRef.current = [];
+      setRelayStatus(null);
     };
-  }, []);
+  }, [isAdmin, role, relayUrl, relayRoom, relayAdminKey, send]);
 
-  const send = useCallback((message: ChannelMessage) => {
-    channelRef.current?.postMessage(message);
-  }, []);
-
-  const subscribe = useCallback((type: string, callback: (payload: any) => void) => {
+  const subscribe = useCallback(<T extends ChannelMessageType>(
+    type: T,
+    callback: (payload: ChannelPayload<T>) => void
+  ) => {
     if (!listenersRef.current.has(type)) {
       listenersRef.current.set(type, new Set());
     }
-    listenersRef.current.get(type)!.add(callback);
+    const listener = callback as (payload: unknown) => void;
+    listenersRef.current.get(type)!.add(listener);
 
     return () => {
-      listenersRef.current.get(type)?.delete(callback);
+      listenersRef.current.get(type)?.delete(listener);
     };
   }, []);
 
   const sendGameState = useCallback((state: GameState) => {
-    send({ type: 'game_state', payload: state });
+    send({ type: 'game_state', payload: toPublicGameState(state) });
+  }, [send]);
+
+  const sendSnapshot = useCallback((state: GameState, aiResponse: string | null, joinUrl: string | null) => {
+    send({ type: 'snapshot', payload: { state: toPublicGameState(state), aiResponse, joinUrl } });
+  }, [send]);
+
+  const sendJoinInfo = useCallback((joinUrl: string | null) => {
+    send({ type: 'join_info', payload: { joinUrl } });
+  }, [send]);
+
+  const requestSnapshot = useCallback(() => {
+    send({ type: 'request_snapshot', payload: null });
   }, [send]);
 
   const sendEmotion = useCallback((emotion: CharacterEmotion) => {
@@ -71,27 +158,38 @@ export function useWindowChannel(isAdmin: boolean) {
     send({ type: 'give_hint', payload: hint });
   }, [send]);
 
-  const sendCustomDisplay = useCallback((display: GameState['customDisplay']) => {
+  const sendCustomDisplay = useCallback((display: CustomDisplay | null) => {
     send({ type: 'set_display', payload: display });
   }, [send]);
 
   const sendMute = useCallback(() => {
-    send({ type: 'mute' });
+    send({ type: 'mute', payload: null });
   }, [send]);
 
   const sendAIResponse = useCallback((response: string) => {
     send({ type: 'ai_response', payload: response });
   }, [send]);
 
+  // Text streamed so far; followed by a final ai_response once the reply is complete
+  const sendAIResponsePartial = useCallback((partial: string) => {
+    send({ type: 'ai_response_partial', payload: partial });
+  }, [send]);
+
   return {
     send,
     subscribe,
+    versionMismatch,
+    relayStatus,
     sendGameState,
+    sendSnapshot,
+    sendJoinInfo,
+    requestSnapshot,
     sendEmotion,
     sendHint,
     sendCustomDisplay,
     sendMute,
     sendAIResponse,
+    sendAIResponsePartial,
   };
 }
 
@@ -0,0 +1,189 @@
+import type { SantaVerdict } from '@/lib/verdict';
+
+// Deterministic guess checking, run before asking the LLM.
+// Clear hits and clear misses are decided locally (fast, and never wrong about
+// "candycane" vs "candy canes"); questions and anything borderline go to the model.
+
+export type MatchOutcome = 'correct' | 'incorrect' | 'undecided';
+
+export interface MatchResult {
+  outcome: MatchOutcome;
+  // The answer or alias the guess matched (or came closest to)
+  target: string;
+  distance: number;
+}
+
+// Lead-ins players wrap guesses in: "is it a ...", "I think it's the ..."
+const GUESS_PREFIX = /^(?:(?:is it|is that|could it be|would it be|it's|it is|its|i think(?: it's| it is| its)?|i guess|maybe|my guess is|the answer is|is the answer)\s+)+/;
+const ARTICLE_PREFIX = /^(?:a|an|the|some)\s+/;
+const QUESTION_START = /^(?:is|are|am|was|were|does|do|did|can|could|will|would|should|has|have|what|how|why|where|when|who|which)\b/;
+
+// Requests and remarks that aren't answers: "give me a hint", "I don't know", "another clue please",
+// and the one-word fillers speech recognition makes out of background noise ("yes", "um", "okay")
+const NOT_AN_ANSWER = new Set([
+  'i', 'im', 'ive', 'me', 'my', 'we', 'us', 'you', 'your', 'please', 'hint', 'hints', 'clue', 'clues', 'help',
+  'another', 'more', 'again', 'dont', 'know', 'idea', 'give', 'tell', 'say', 'repeat', 'explain', 'skip',
+  'yes', 'yeah', 'yep', 'no', 'nope', 'nah', 'ok', 'okay', 'thanks', 'thank', 'hmm', 'hm', 'um', 'umm', 'uh',
+  'er', 'ah', 'oh', 'wow', 'huh', 'hi', 'hey', 'hello', 'sure', 'right', 'cool', 'nice',
+]);
+
+// Only inputs this short can be ruled out locally; anything longer is a sentence for the model to read
+const MAX_PLAIN_GUESS_WORDS = 2;
+// Below this similarity with every accepted answer, a guess is plainly wrong
+const MIN_RELATED_SIMILARITY = 0.5;
+
+export function normalizeGuess(text: string) {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[^a-z0-9' ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(GUESS_PREFIX, '')
+    .replace(ARTICLE_PREFIX, '')
+    .replace(/'/g, '')
+    .trim();
+}
+
+export function singularize(word: string) {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(?:ch|sh|ss|x|z)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+// Singular words with spaces removed, so "candy canes" == "candycane"
+function canonical(text: string) {
+  return text.split(' ').filter(Boolean).map(singularize).join('');
+}
+
+export function levenshtein(a: string, b: string) {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+// Typos allowed grow with word length; short words must match exactly ("holy" isn't "holly")
+function allowedDistance(length: number) {
+  if (length <= 5) return 0;
+  if (length <= 7) return 1;
+  return 2;
+}
+
+// Shares a meaningful stem, e.g. "snow" vs "snowflake" or "gingerbread man" vs "gingerbread"
+function isRelated(guess: string, target: string) {
+  const guessCanon = canonical(guess);
+  const targetCanon = canonical(target);
+  if (guessCanon.includes(targetCanon) || targetCanon.includes(guessCanon)) return true;
+
+  const targetWords = target.split(' ').map(singularize);
+  return guess.split(' ').map(singularize).some(word =>
+    word.length >= 3 && targetWords.some(t => t.includes(word) || word.includes(t))
+  );
+}
+
+export function looksLikeQuestion(input: string) {
+  const text = input.trim().toLowerCase();
+  return text.endsWith('?') || QUESTION_START.test(text);
+}
+
+// A bare answer like "snowman" or "candy cane", after normalizeGuess() took off "I think it's a"
+function looksLikeAnswer(guess: string) {
+  const words = guess.split(' ');
+  return words.length <= MAX_PLAIN_GUESS_WORDS && !words.some(word => NOT_AN_ANSWER.has(word));
+}
+
+export function matchGuess(input: string, answer: string, aliases: string[] = []): MatchResult {
+  const guess = normalizeGuess(input);
+  const targets = [answer, ...aliases].map(normalizeGuess).filter(Boolean);
+  const guessCanon = canonical(guess);
+
+  let best: MatchResult = { outcome: 'undecided', target: answer, distance: Infinity };
+  for (const target of targets) {
+    const distance = levenshtein(guessCanon, canonical(target));
+    if (distance < best.distance) {
+      best = { outcome: 'undecided', target, distance };
+    }
+  }
+
+  if (!guess) return best;
+
+  const targetCanon = canonical(best.target);
+  if (best.distance <= allowedDistance(targetCanon.length)) {
+    return { ...best, outcome: 'correct' };
+  }
+
+  // "Is it red?" strips down to "red" but is really a question; only a hit is safe to decide
+  if (looksLikeQuestion(input)) return best;
+  // Asking for a hint or giving up isn't a wrong guess
+  if (!looksLikeAnswer(guess)) return best;
+
+  const similarity = 1 - best.distance / Math.max(guessCanon.length, targetCanon.length);
+  const related = targets.some(target => isRelated(guess, target));
+  if (similarity < MIN_RELATED_SIMILARITY && !related) {
+    return { ...best, outcome: 'incorrect' };
+  }
+
+  return best;
+}
+
+const CORRECT_REPLIES = [
+  (answer: string) => `Ho ho ho! You got it, it's ${answer}! Merry Christmas!`,
+  (answer: string) => `Yes, yes, yes! ${answer} is right! The elves are cheering!`,
+  (answer: string) => `That's it! ${answer}! You've earned a spot on the nice list!`,
+];
+
+const INCORRECT_REPLIES = [
+  (guess: string) => `Ho ho, not ${guess}! Have another think.`,
+  (guess: string) => `${guess}? Good try, but that's not it!`,
+  () => `Not quite! Listen to the riddle again and keep guessing.`,
+];
+
+const pick = <T,>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+
+// Verdict for a guess decided locally, shaped like the model's so callers treat them the same
+export function buildLocalVerdict(match: MatchResult, input: string, answer: string): SantaVerdict {
+  const correct = match.outcome === 'correct';
+  return {
+    kind: 'guess',
+    verdict: correct ? 'correct' : 'incorrect',
+    reply: correct ? pick(CORRECT_REPLIES)(answer) : pick(INCORRECT_REPLIES)(normalizeGuess(input) || input.trim()),
+    confidence: 1,
+  };
+}
+
+// Word list text format: one word per line, accepted aliases after '='
+// e.g. "presents = gifts, parcels"
+export function parseWordList(text: string) {
+  const wordList: string[] = [];
+  const aliases: Record<string, string[]> = {};
+  for (const line of text.split('\n')) {
+    const [word, rest = ''] = line.split('=');
+    const trimmed = word.trim();
+    if (!trimmed) continue;
+    wordList.push(trimmed);
+    const extra = rest.split(',').map(a => a.trim()).filter(Boolean);
+    if (extra.length > 0) aliases[trimmed] = extra;
+  }
+  return { wordList, aliases };
+}
+
+export function formatWordList(wordList: string[], aliases: Record<string, string[]>) {
+  return wordList
+    .map(word => aliases[word]?.length ? `${word} = ${aliases[word].join(', ')}` : word)
+    .join('\n');
+}
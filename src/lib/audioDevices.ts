@@ -0,0 +1,64 @@
+// Shared helpers for picking microphones and speakers.
+// The admin and display windows share one origin, so choices persist via localStorage.
+
+export const INPUT_DEVICE_STORAGE_KEY = 'christmas-riddle-game:audio-input';
+export const OUTPUT_DEVICE_STORAGE_KEY = 'christmas-riddle-game:audio-output';
+
+export const DEFAULT_MIC_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export function loadDeviceId(key: string) {
+  try {
+    return localStorage.getItem(key) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveDeviceId(key: string, deviceId: string) {
+  try {
+    if (deviceId) {
+      localStorage.setItem(key, deviceId);
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch {
+    // Storage can be unavailable (private mode); the choice just won't persist
+  }
+}
+
+// Open the chosen mic, falling back to the system default if it has been unplugged
+export async function getMicrophoneStream(
+  deviceId?: string,
+  constraints: MediaTrackConstraints = DEFAULT_MIC_CONSTRAINTS,
+): Promise<MediaStream> {
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { ...constraints, deviceId: { exact: deviceId } },
+      });
+    } catch (err) {
+      const name = err instanceof DOMException ? err.name : '';
+      if (name !== 'OverconstrainedError' && name !== 'NotFoundError') throw err;
+      console.warn(`Microphone ${deviceId} unavailable, using default:`, err);
+    }
+  }
+
+  return navigator.mediaDevices.getUserMedia({ audio: constraints });
+}
+
+export const supportsOutputSelection = () =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+// Route an audio element to the chosen speaker; ignored where the browser can't
+export async function applyOutputDevice(audio: HTMLMediaElement, sinkId?: string) {
+  if (!sinkId || !supportsOutputSelection()) return;
+  try {
+    await audio.setSinkId(sinkId);
+  } catch (err) {
+    console.warn(`Speaker ${sinkId} unavailable, using default:`, err);
+  }
+}
@@ -0,0 +1,254 @@
+import { z } from 'zod';
+import type { ScoreEvent, TeamScore } from '@/lib/scoring';
+import type { SessionState } from '@/lib/session';
+import type { RoundTimer } from '@/lib/roundTimer';
+
+// Messages exchanged between the admin and display windows.
+// Every message is wrapped in an envelope carrying PROTOCOL_VERSION; bump it
+// whenever a message or payload changes shape so mismatched builds notice.
+
+export const PROTOCOL_VERSION = 7;
+
+export type CharacterEmotion = 'listening' | 'thinking' | 'happy' | 'sad' | 'neutral';
+
+export type ChannelRole = 'admin' | 'display' | 'player';
+
+export interface CustomDisplay {
+  type: 'image' | 'video' | 'text';
+  content: string;
+}
+
+// The answer, made public on purpose once the word is over
+export interface RevealedAnswer {
+  word: string;
+  // Filled in once Santa has come up with it
+  explanation: string | null;
+}
+
+// What the audience sees. Everything here is broadcast, so it must never hold the answer.
+export interface PublicGameState {
+  isGameActive: boolean;
+  currentRiddle: string;
+  hintsRemaining: number;
+  hintsUsed: number;
+  emotion: CharacterEmotion;
+  statusText: string;
+  customDisplay?: CustomDisplay;
+  hintText?: string;
+  teams: TeamScore[];
+  lastScoreEvent?: ScoreEvent;
+  // Tournament progress; null for a one-off game
+  session: SessionState | null;
+  // Countdown for the current word; null when untimed or between words
+  timer: RoundTimer | null;
+  reveal: RevealedAnswer | null;
+}
+
+// Full state as the admin holds it, secrets included
+export interface GameState extends PublicGameState {
+  currentWord: string;
+  // When the riddle was first read out, for the time bonus
+  roundStartedAt: number | null;
+}
+
+// Strip secrets before state leaves the admin. Fields are listed explicitly so
+// anything added to GameState later stays private until it is added here.
+export function toPublicGameState(state: GameState): PublicGameState {
+  return {
+    isGameActive: state.isGameActive,
+    currentRiddle: state.currentRiddle,
+    hintsRemaining: state.hintsRemaining,
+    hintsUsed: state.hintsUsed,
+    emotion: state.emotion,
+    statusText: state.statusText,
+    customDisplay: state.customDisplay,
+    hintText: state.hintText,
+    teams: state.teams,
+    lastScoreEvent: state.lastScoreEvent,
+    session: state.session,
+    timer: state.timer,
+    reveal: state.reveal,
+  };
+}
+
+// A player joined from their phone via /play
+export interface PlayerInfo {
+  id: string;
+  name: string;
+  team: string;
+}
+
+export type PlayerInputStatus = 'queued' | 'rejected';
+
+// Everything a freshly opened display needs to catch up
+export interface DisplaySnapshot {
+  state: PublicGameState;
+  aiResponse: string | null;
+  // Link phones open to join as players, shown as a QR code; null when joining is off
+  joinUrl: string | null;
+}
+
+export type ChannelMessage =
+  // Sent by each window when it opens; the other side answers with hello_ack
+  | { type: 'hello'; payload: { role: ChannelRole } }
+  | { type: 'hello_ack'; payload: { role: ChannelRole } }
+  // Admin heartbeat; the display echoes sentAt back so the admin can measure latency
+  | { type: 'ping'; payload: { sentAt: number } }
+  | { type: 'pong'; payload: { sentAt: number } }
+  // A display that just opened asks for everything it missed
+  | { type: 'request_snapshot'; payload: null }
+  | { type: 'snapshot'; payload: DisplaySnapshot }
+  | { type: 'game_state'; payload: PublicGameState }
+  | { type: 'join_info'; payload: { joinUrl: string | null } }
+  // Player registration; the admin answers with player_welcome
+  | { type: 'player_join'; payload: PlayerInfo }
+  | { type: 'player_welcome'; payload: { playerId: string; accepted: boolean; reason?: string } }
+  // A guess or question typed on a phone, acknowledged with player_input_status
+  | { type: 'player_input'; payload: { playerId: string; inputId: string; text: string } }
+  | { type: 'player_input_status'; payload: { playerId: string; inputId: string; status: PlayerInputStatus; reason?: string } }
+  | { type: 'give_hint'; payload: string }
+  | { type: 'set_emotion'; payload: CharacterEmotion }
+  | { type: 'set_display'; payload: CustomDisplay | null }
+  | { type: 'mute'; payload: null }
+  | { type: 'ai_response'; payload: string }
+  // Text streamed so far; followed by a final ai_response once the reply is complete
+  | { type: 'ai_response_partial'; payload: string };
+
+export type ChannelMessageType = ChannelMessage['type'];
+export type ChannelPayload<T extends ChannelMessageType> = Extract<ChannelMessage, { type: T }>['payload'];
+
+export interface ChannelEnvelope {
+  version: number;
+  message: ChannelMessage;
+}
+
+const emotionSchema = z.enum(['listening', 'thinking', 'happy', 'sad', 'neutral']);
+const roleSchema = z.object({ role: z.enum(['admin', 'display', 'player']) });
+const heartbeatSchema = z.object({ sentAt: z.number() });
+
+const customDisplaySchema = z.object({
+  type: z.enum(['image', 'video', 'text']),
+  content: z.string(),
+});
+
+const playerInfoSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1).max(24),
+  team: z.string().trim().max(24),
+});
+
+const publicGameStateSchema = z.object({
+  isGameActive: z.boolean(),
+  currentRiddle: z.string(),
+  hintsRemaining: z.number(),
+  hintsUsed: z.number(),
+  emotion: emotionSchema,
+  statusText: z.string(),
+  customDisplay: customDisplaySchema.optional(),
+  hintText: z.string().optional(),
+  teams: z.array(z.object({
+    team: z.string(),
+    score: z.number(),
+    solves: z.number(),
+    wrongGuesses: z.number(),
+  })),
+  lastScoreEvent: z.object({
+    id: z.number(),
+    team: z.string(),
+    points: z.number(),
+    reason: z.string(),
+  }).optional(),
+  session: z.object({
+    phase: z.enum(['playing', 'intermission', 'finished']),
+    round: z.number(),
+    totalRounds: z.number(),
+    word: z.number(),
+    wordsPerRound: z.number(),
+    difficulty: z.enum(['easy', 'medium', 'hard']),
+  }).nullable(),
+  timer: z.object({
+    durationMs: z.number(),
+    endsAt: z.number(),
+    warningMs: z.number(),
+  }).nullable(),
+  reveal: z.object({
+    word: z.string(),
+    explanation: z.string().nullable(),
+  }).nullable(),
+});
+
+const messageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('hello'), payload: roleSchema }),
+  z.object({ type: z.literal('hello_ack'), payload: roleSchema }),
+  z.object({ type: z.literal('ping'), payload: heartbeatSchema }),
+  z.object({ type: z.literal('pong'), payload: heartbeatSchema }),
+  z.object({ type: z.literal('request_snapshot'), payload: z.null() }),
+  z.object({
+    type: z.literal('snapshot'),
+    payload: z.object({
+      state: publicGameStateSchema,
+      aiResponse: z.string().nullable(),
+      joinUrl: z.string().nullable(),
+    }),
+  }),
+  z.object({ type: z.literal('game_state'), payload: publicGameStateSchema }),
+  z.object({ type: z.literal('join_info'), payload: z.object({ joinUrl: z.string().nullable() }) }),
+  z.object({ type: z.literal('player_join'), payload: playerInfoSchema }),
+  z.object({
+    type: z.literal('player_welcome'),
+    payload: z.object({ playerId: z.string(), accepted: z.boolean(), reason: z.string().optional() }),
+  }),
+  z.object({
+    type: z.literal('player_input'),
+    payload: z.object({ playerId: z.string(), inputId: z.string(), text: z.string().trim().min(1).max(200) }),
+  }),
+  z.object({
+    type: z.literal('player_input_status'),
+    payload: z.object({
+      playerId: z.string(),
+      inputId: z.string(),
+      status: z.enum(['queued', 'rejected']),
+      reason: z.string().optional(),
+    }),
+  }),
+  z.object({ type: z.literal('give_hint'), payload: z.string() }),
+  z.object({ type: z.literal('set_emotion'), payload: emotionSchema }),
+  z.object({ type: z.literal('set_display'), payload: customDisplaySchema.nullable() }),
+  z.object({ type: z.literal('mute'), payload: z.null() }),
+  z.object({ type: z.literal('ai_response'), payload: z.string() }),
+  z.object({ type: z.literal('ai_response_partial'), payload: z.string() }),
+]);
+
+export function createEnvelope(message: ChannelMessage): ChannelEnvelope {
+  return { version: PROTOCOL_VERSION, message };
+}
+
+export type ParsedEnvelope =
+  | { ok: true; message: ChannelMessage }
+  // remoteVersion is null for builds from before the protocol was versioned
+  | { ok: false; reason: 'version'; remoteVersion: number | null }
+  | { ok: false; reason: 'invalid'; error: string };
+
+/**
+ * Validate raw channel data. The version is checked before the message so a
+ * peer on another build is reported as such instead of as garbage.
+ */
+export function parseEnvelope(data: unknown): ParsedEnvelope {
+  const version = typeof data === 'object' && data !== null ? (data as { version?: unknown }).version : undefined;
+  if (typeof version !== 'number') {
+    return { ok: false, reason: 'version', remoteVersion: null };
+  }
+  if (version !== PROTOCOL_VERSION) {
+    return { ok: false, reason: 'version', remoteVersion: version };
+  }
+
+  const result = messageSchema.safeParse((data as { message?: unknown }).message);
+  if (!result.success) {
+    return {
+      ok: false,
+      reason: 'invalid',
+      error: result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(', '),
+    };
+  }
+  return { ok: true, message: result.data as ChannelMessage };
+}
@@ -0,0 +1,186 @@
+import type { ChannelRole } from '@/lib/channelProtocol';
+
+// How channel envelopes travel between windows.
+// BroadcastChannel covers windows of one browser; the WebSocket relay
+// (server/relay.js) reaches displays and phones on other machines on the LAN.
+
+export type TransportStatus = 'connecting' | 'open' | 'closed';
+
+export interface TransportHandlers {
+  onMessage: (data: unknown) => void;
+  onStatus?: (status: TransportStatus) => void;
+}
+
+export interface ChannelTransport {
+  // Messages sent while a transport is not open are dropped; peers resync via hello/snapshot
+  send: (data: unknown) => void;
+  close: () => void;
+}
+
+export interface RelayConfig {
+  url: string;
+  room: string;
+  // Proves to the relay that this is the room's admin; never put in display or play links
+  adminKey?: string;
+}
+
+export const DEFAULT_RELAY_PORT = 8787;
+
+// Reconnect quickly at first, then back off so a missing relay isn't hammered
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 10000;
+// Close codes server/relay.js uses when retrying wouldn't help
+const RELAY_REJECTED_MIN = 4000;
+const RELAY_REJECTED_MAX = 4099;
+
+// Unambiguous characters only, so the code is easy to read off a TV across the room
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_CODE_LENGTH = 4;
+
+export function generateRoomCode() {
+  return Array.from(
+    { length: ROOM_CODE_LENGTH },
+    () => ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)]
+  ).join('');
+}
+
+export function generateAdminKey() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function isValidRoomCode(room: string) {
+  return /^[A-Z0-9]{4,8}$/.test(room);
+}
+
+export function createBroadcastTransport(name: string, handlers: TransportHandlers): ChannelTransport {
+  const channel = new BroadcastChannel(name);
+  channel.onmessage = (event: MessageEvent<unknown>) => handlers.onMessage(event.data);
+
+  return {
+    send: (data) => channel.postMessage(data),
+    close: () => channel.close(),
+  };
+}
+
+export function createRelayTransport(
+  { url, room, adminKey }: RelayConfig,
+  role: ChannelRole,
+  handlers: TransportHandlers
+): ChannelTransport {
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let closed = false;
+
+  const connect = () => {
+    const target = new URL(url);
+    target.searchParams.set('room', room);
+    target.searchParams.set('role', role);
+    if (adminKey) target.searchParams.set('key', adminKey);
+
+    handlers.onStatus?.('connecting');
+    const ws = new WebSocket(target.toString());
+    socket = ws;
+
+    ws.onopen = () => {
+      attempt = 0;
+      handlers.onStatus?.('open');
+    };
+
+    ws.onmessage = (event) => {
+      if (typeof event.data !== 'string') return;
+      try {
+        handlers.onMessage(JSON.parse(event.data));
+      } catch {
+        console.warn('Ignoring malformed relay message');
+      }
+    };
+
+    ws.onclose = (event) => {
+      if (socket !== ws) return;
+      socket = null;
+      handlers.onStatus?.('closed');
+      if (closed) return;
+      // The relay turned us away for good (wrong admin key, replaced by a newer connection)
+      if (event.code >= RELAY_REJECTED_MIN && event.code <= RELAY_REJECTED_MAX) {
+        console.warn(`Relay closed the connection: ${event.reason}`);
+        return;
+      }
+
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+      attempt++;
+      retryTimer = setTimeout(connect, delay);
+    };
+  };
+
+  connect();
+
+  return {
+    send: (data) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(data));
+      }
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      const ws = socket;
+      socket = null;
+      ws?.close();
+    },
+  };
+}
+
+// Admin-side relay settings, remembered between sessions
+export interface RelaySettings extends RelayConfig {
+  enabled: boolean;
+  adminKey: string;
+}
+
+const RELAY_STORAGE_KEY = 'christmas-riddle-game:relay';
+
+export function defaultRelayUrl() {
+  return `ws://${window.location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`;
+}
+
+export function loadRelaySettings(): RelaySettings {
+  const fallback: RelaySettings = {
+    enabled: false,
+    url: defaultRelayUrl(),
+    room: generateRoomCode(),
+    adminKey: generateAdminKey(),
+  };
+  try {
+    const stored = JSON.parse(localStorage.getItem(RELAY_STORAGE_KEY) ?? 'null');
+    return stored ? { ...fallback, ...stored } : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveRelaySettings(settings: RelaySettings) {
+  try {
+    localStorage.setItem(RELAY_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage unavailable (private mode); settings just won't persist
+  }
+}
+
+// Displays on other machines get the relay from their URL: /display?relay=ws://...&room=ABCD
+export function relayConfigFromSearch(search: string): RelayConfig | null {
+  const params = new URLSearchParams(search);
+  const url = params.get('relay');
+  const room = (params.get('room') ?? '').toUpperCase();
+  return url && isValidRoomCode(room) ? { url, room } : null;
+}
+
+export function buildDisplayUrl(origin: string, { url, room }: RelayConfig) {
+  const params = new URLSearchParams({ relay: url, room });
+  return `${origin}/display?${params.toString()}`;
+}
+
+// Phones join the same room as players
+export function buildPlayUrl(origin: string, { url, room }: RelayConfig) {
+  const params = new URLSearchParams({ relay: url, room });
+  return `${origin}/play?${params.toString()}`;
+}
@@ -0,0 +1,61 @@
+import { applyOutputDevice } from '@/lib/audioDevices';
+
+// A short synthesized warning beep, played through the same speaker as Santa
+
+const SAMPLE_RATE = 22050;
+const BEEP_HZ = 880;
+const BEEP_MS = 150;
+const GAP_MS = 100;
+const BEEPS = 3;
+
+function encodeWav(samples: Float32Array, sampleRate: number) {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((s, i) => view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, s)) * 0x7fff, true));
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
+
+function synthesizeWarning() {
+  const beepLength = Math.round((SAMPLE_RATE * BEEP_MS) / 1000);
+  const period = beepLength + Math.round((SAMPLE_RATE * GAP_MS) / 1000);
+  const samples = new Float32Array(period * BEEPS);
+  for (let beep = 0; beep < BEEPS; beep++) {
+    for (let i = 0; i < beepLength; i++) {
+      // Fade in and out so the beep doesn't click
+      const envelope = Math.min(1, i / 200, (beepLength - i) / 200);
+      samples[beep * period + i] = 0.5 * envelope * Math.sin((2 * Math.PI * BEEP_HZ * i) / SAMPLE_RATE);
+    }
+  }
+  return encodeWav(samples, SAMPLE_RATE);
+}
+
+let warningUrl: string | null = null;
+
+export async function playWarningChime(sinkId?: string) {
+  warningUrl ??= URL.createObjectURL(synthesizeWarning());
+  const audio = new Audio(warningUrl);
+  await applyOutputDevice(audio, sinkId);
+  try {
+    await audio.play();
+  } catch (err) {
+    console.warn('Could not play warning sound:', err);
+  }
+}
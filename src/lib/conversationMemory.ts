@@ -0,0 +1,94 @@
+import type { LLMMessage } from '@/lib/llmProviders';
+import type { SantaVerdict } from '@/lib/verdict';
+
+// What Santa has said so far this word, sent along with every new question so he
+// doesn't contradict himself. Older exchanges are folded into a short summary once
+// the history outgrows its token budget.
+
+export interface MemorySettings {
+  enabled: boolean;
+  /** Rough size limit for the history sent with each question */
+  tokenBudget: number;
+}
+
+export const DEFAULT_MEMORY_SETTINGS: MemorySettings = {
+  enabled: true,
+  tokenBudget: 600,
+};
+
+export interface Exchange {
+  input: string;
+  verdict: SantaVerdict;
+}
+
+export interface ConversationMemory {
+  // Earlier exchanges, condensed; empty until the first compaction
+  summary: string;
+  exchanges: Exchange[];
+}
+
+// The latest exchanges always go out word for word
+const MIN_RECENT_EXCHANGES = 2;
+
+export const EMPTY_MEMORY: ConversationMemory = { summary: '', exchanges: [] };
+
+// Close enough for budgeting without shipping a tokenizer
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+// Santa's turn as the model wrote it, so the history doesn't teach it a different format
+function assistantContent(verdict: SantaVerdict) {
+  return JSON.stringify({ kind: verdict.kind, verdict: verdict.verdict, reply: verdict.reply, confidence: verdict.confidence });
+}
+
+function exchangeTokens(exchange: Exchange) {
+  return estimateTokens(exchange.input) + estimateTokens(assistantContent(exchange.verdict));
+}
+
+export function memoryTokens(memory: ConversationMemory) {
+  return estimateTokens(memory.summary) + memory.exchanges.reduce((sum, e) => sum + exchangeTokens(e), 0);
+}
+
+export function addExchange(memory: ConversationMemory, exchange: Exchange): ConversationMemory {
+  return { ...memory, exchanges: [...memory.exchanges, exchange] };
+}
+
+/**
+ * How many of the oldest exchanges to fold into the summary; 0 while within budget.
+ * Folds until the rest fit in half the budget, leaving room for new questions.
+ */
+export function planCompaction(memory: ConversationMemory, tokenBudget: number) {
+  if (memoryTokens(memory) <= tokenBudget) return 0;
+
+  let count = 0;
+  let remaining = memory.exchanges.reduce((sum, e) => sum + exchangeTokens(e), 0);
+  while (count < memory.exchanges.length - MIN_RECENT_EXCHANGES && remaining > tokenBudget / 2) {
+    remaining -= exchangeTokens(memory.exchanges[count]);
+    count++;
+  }
+  return count;
+}
+
+// Replace the oldest `count` exchanges with a summary that covers them (and the old summary)
+export function applySummary(memory: ConversationMemory, count: number, summary: string): ConversationMemory {
+  return { summary: summary.trim(), exchanges: memory.exchanges.slice(count) };
+}
+
+// Plain text of exchanges for the summarizer
+export function describeExchanges(exchanges: Exchange[]) {
+  return exchanges.map(e => `Player: ${e.input}\nSanta: ${e.verdict.reply}`).join('\n');
+}
+
+// Goes at the end of the system prompt; some chat templates reject system messages anywhere else
+export function summaryPrompt(memory: ConversationMemory) {
+  return memory.summary ? `\n\nEarlier this round: ${memory.summary}` : '';
+}
+
+// Prior turns to put between the system prompt and the new input
+export function historyMessages(memory: ConversationMemory): LLMMessage[] {
+  return memory.exchanges.flatMap((exchange): LLMMessage[] => [
+    { role: 'user', content: exchange.input },
+    { role: 'assistant', content: assistantContent(exchange.verdict) },
+  ]);
+}
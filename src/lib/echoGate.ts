@@ -0,0 +1,102 @@
+// Keeps Santa from hearing (and answering) himself through the room speakers.
+// The mic is gated while TTS plays and for a short tail afterwards. Optionally,
+// mic frames are compared against the TTS waveform so a player who talks over
+// Santa (barge-in) still gets through while the echo of his voice does not.
+
+export interface EchoGateOptions {
+  /** How long after TTS ends the mic stays gated (room reverb, output latency) */
+  tailMs: number;
+  /** Compare mic level with the TTS waveform instead of gating blindly */
+  useReference: boolean;
+  /** Mic must be this many times louder than the expected echo to count as a player */
+  echoMargin: number;
+  /** How far back in the TTS waveform to look for the sound now reaching the mic */
+  referenceLookbackMs: number;
+}
+
+export const DEFAULT_ECHO_GATE_OPTIONS: EchoGateOptions = {
+  tailMs: 500,
+  useReference: true,
+  echoMargin: 2,
+  referenceLookbackMs: 300,
+};
+
+// Starting guess for how much of the speaker output reaches the mic
+const INITIAL_COUPLING = 0.3;
+const COUPLING_SMOOTHING = 0.1;
+// Reference quieter than this is a pause between words, not something to learn from
+const MIN_REFERENCE_RMS = 0.01;
+
+// RMS level per window, used as a cheap loudness envelope of the TTS audio
+export function computeEnvelope(samples: Float32Array, sampleRate: number, windowMs: number) {
+  const windowSize = Math.max(1, Math.round((sampleRate * windowMs) / 1000));
+  const envelope = new Float32Array(Math.ceil(samples.length / windowSize));
+  for (let w = 0; w < envelope.length; w++) {
+    const start = w * windowSize;
+    const end = Math.min(samples.length, start + windowSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    envelope[w] = Math.sqrt(sum / (end - start));
+  }
+  return envelope;
+}
+
+// Loudest point of an envelope between two playback positions
+export function envelopePeak(envelope: Float32Array, windowMs: number, fromMs: number, toMs: number) {
+  const from = Math.max(0, Math.floor(fromMs / windowMs));
+  const to = Math.min(envelope.length - 1, Math.floor(toMs / windowMs));
+  let peak = 0;
+  for (let i = from; i <= to; i++) {
+    peak = Math.max(peak, envelope[i]);
+  }
+  return peak;
+}
+
+export function createEchoGate(options: Partial<EchoGateOptions> = {}) {
+  let opts: EchoGateOptions = { ...DEFAULT_ECHO_GATE_OPTIONS, ...options };
+  let ttsActive = false;
+  let closedUntil = 0;
+  let coupling = INITIAL_COUPLING;
+
+  const ttsStarted = () => {
+    ttsActive = true;
+  };
+
+  // Pass tailMs = 0 when playback was cut off because a player is already talking
+  const ttsEnded = (tailMs = opts.tailMs) => {
+    if (!ttsActive) return;
+    ttsActive = false;
+    closedUntil = performance.now() + tailMs;
+  };
+
+  const isGated = (now = performance.now()) => ttsActive || now < closedUntil;
+
+  /**
+   * Decide whether a mic frame should reach voice detection.
+   * `referenceRms` is the recent TTS level, or null when no waveform is available.
+   */
+  const passFrame = (micRms: number, referenceRms: number | null, allowDuringSpeech: boolean) => {
+    if (!ttsActive) return performance.now() >= closedUntil;
+    if (!allowDuringSpeech) return false;
+    if (!opts.useReference || referenceRms === null) return true;
+
+    const expectedEcho = coupling * referenceRms;
+    const isEcho = micRms <= expectedEcho * opts.echoMargin;
+
+    // Learn the speaker-to-mic coupling from frames that are plainly just echo
+    if (isEcho && referenceRms >= MIN_REFERENCE_RMS) {
+      coupling += (micRms / referenceRms - coupling) * COUPLING_SMOOTHING;
+    }
+    return !isEcho;
+  };
+
+  const configure = (next: Partial<EchoGateOptions>) => {
+    opts = { ...DEFAULT_ECHO_GATE_OPTIONS, ...next };
+  };
+
+  return { ttsStarted, ttsEnded, isGated, passFrame, configure };
+}
+
+export type EchoGate = ReturnType<typeof createEchoGate>;
@@ -0,0 +1,92 @@
+import { normalizeGuess, singularize } from '@/lib/answerMatcher';
+
+// Catches the secret word in model output before it is spoken or shown.
+// Small local models blurt out the answer in riddles, hints and replies, so
+// every generated text is checked against the word, its plurals and aliases.
+
+export type LeakSource = 'riddle' | 'hint' | 'reply';
+
+export interface LeakIncident {
+  id: number;
+  source: LeakSource;
+  // 'regenerated' when a clean retry replaced the text, 'redacted' when the words were blanked out
+  action: 'regenerated' | 'redacted';
+  matches: string[];
+  original: string;
+  timestamp: number;
+}
+
+// Spoken and shown in place of a leaked word
+export const REDACTION = '[secret]';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Plurals that aren't made with an ending
+const IRREGULAR_PLURALS: Record<string, string> = {
+  child: 'children',
+  foot: 'feet',
+  goose: 'geese',
+  mouse: 'mice',
+  ox: 'oxen',
+  person: 'people',
+  tooth: 'teeth',
+};
+
+// One word, allowing the plural forms singularize() strips and the common irregular ones
+function wordPattern(word: string) {
+  const stem = singularize(word);
+  const irregular = IRREGULAR_PLURALS[stem];
+  if (irregular) {
+    return `(?:${escapeRegExp(stem)}(?:s|es)?|${escapeRegExp(irregular)})`;
+  }
+  // snowman, snowmen
+  if (stem.endsWith('man')) {
+    return `${escapeRegExp(stem.slice(0, -2))}[ae]ns?`;
+  }
+  // elf, elves; knife, knives
+  if (/[^f]f$/.test(stem)) {
+    return `${escapeRegExp(stem.slice(0, -1))}(?:fs?|ves)`;
+  }
+  if (stem.endsWith('fe')) {
+    return `${escapeRegExp(stem.slice(0, -2))}(?:fes?|ves)`;
+  }
+  if (stem.endsWith('y') && stem.length > 3) {
+    return `${escapeRegExp(stem.slice(0, -1))}(?:y|ies)`;
+  }
+  return `${escapeRegExp(stem)}(?:s|es)?`;
+}
+
+export function createLeakDetector(secretWord: string, aliases: string[] = []) {
+  const targets = [secretWord, ...aliases]
+    .map(normalizeGuess)
+    .filter(Boolean)
+    .map(target => target.split(' '));
+
+  // "candy cane", "candy-cane" and "candycanes" all count
+  const patterns = targets.map(words => words.map(wordPattern).join('[\\s-]*'));
+  const regex = new RegExp(`\\b(?:${patterns.join('|')})\\b`, 'gi');
+
+  // Longest target in words; a streaming caller must hold back this many trailing words
+  const maxWords = Math.max(1, ...targets.map(words => words.length));
+
+  const find = (text: string) => Array.from(text.matchAll(regex), match => match[0]);
+  const redact = (text: string) => text.replace(regex, REDACTION);
+
+  return { find, redact, maxWords };
+}
+
+export type LeakDetector = ReturnType<typeof createLeakDetector>;
+
+/**
+ * The part of a still-growing text that is safe to release: everything before
+ * the last `holdWords` words, which may yet turn out to be (part of) the secret.
+ */
+export function stableStreamPrefix(text: string, holdWords: number) {
+  let end = text.length;
+  for (let held = 0; held < holdWords && end > 0; held++) {
+    // Step back over the current (possibly partial) word and the space before it
+    while (end > 0 && /\s/.test(text[end - 1])) end--;
+    while (end > 0 && !/\s/.test(text[end - 1])) end--;
+  }
+  return text.slice(0, end);
+}
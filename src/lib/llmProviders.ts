@@ -0,0 +1,399 @@
+// Adapters for the local model runtimes a host might have installed.
+// Each one turns a chat request into that server's HTTP call and reads back
+// the completion, streamed or not. The game code only ever sees plain text.
+
+export type LLMProviderKind = 'lmstudio' | 'ollama' | 'llamacpp' | 'openai';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// What a request is for, so each job can run on a different model
+export type LLMTask = 'riddle' | 'judge' | 'hint';
+
+export const LLM_TASKS: { task: LLMTask; label: string }[] = [
+  { task: 'riddle', label: 'Riddles' },
+  { task: 'judge', label: 'Judging Guesses' },
+  { task: 'hint', label: 'Hints' },
+];
+
+export interface LLMSettings {
+  provider: LLMProviderKind;
+  baseUrl: string;
+  /** Empty lets servers that have a model loaded (LM Studio, llama.cpp) use it */
+  model: string;
+  /** Per-task overrides of model; missing or empty uses model */
+  taskModels: Partial<Record<LLMTask, string>>;
+  apiKey: string;
+  /** Give up on a request once the server has been silent this long */
+  timeoutSec: number;
+  /** Extra attempts after a timeout, network error or server error */
+  maxRetries: number;
+}
+
+export interface ChatRequest {
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+  // OpenAI-style response_format, e.g. { type: 'json_schema', json_schema: {...} }
+  responseFormat?: object;
+}
+
+interface LLMProvider {
+  label: string;
+  defaultBaseUrl: string;
+  requiresModel: boolean;
+  buildRequest: (settings: LLMSettings, request: ChatRequest, stream: boolean) => { url: string; body: object };
+  readCompletion: (data: unknown) => string;
+  // One parsed stream chunk to its text, or null when it carries none
+  readChunk: (chunk: unknown) => string | null;
+  // Server-sent events (data: ...) or newline-delimited JSON
+  streamFormat: 'sse' | 'ndjson';
+  // Where the installed models are listed, and how to read their names
+  modelsPath: string;
+  readModels: (data: unknown) => string[];
+}
+
+// OpenAI-style base URLs often already end in /v1
+function endpoint(baseUrl: string, path: string) {
+  const base = baseUrl.trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+  return `${base}${path}`;
+}
+
+// Just the parts of each server's JSON that get read
+type OpenAIResponse = { choices?: { message?: { content?: string }; delta?: { content?: string } }[] };
+type OllamaResponse = { message?: { content?: string } };
+type OpenAIModels = { data?: { id?: string }[] };
+type OllamaModels = { models?: { name?: string }[] };
+
+function openAICompatible(
+  label: string,
+  defaultBaseUrl: string,
+  requiresModel: boolean,
+  mapResponseFormat: (format: object) => Record<string, unknown> = (format) => ({ response_format: format })
+): LLMProvider {
+  return {
+    label,
+    defaultBaseUrl,
+    requiresModel,
+    streamFormat: 'sse',
+    buildRequest: (settings, request, stream) => ({
+      url: endpoint(settings.baseUrl, '/v1/chat/completions'),
+      body: {
+        ...(settings.model && { model: settings.model }),
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream,
+        ...(request.responseFormat && mapResponseFormat(request.responseFormat)),
+      },
+    }),
+    readCompletion: (data) => (data as OpenAIResponse).choices?.[0]?.message?.content ?? '',
+    readChunk: (chunk) => (chunk as OpenAIResponse).choices?.[0]?.delta?.content ?? null,
+    modelsPath: '/v1/models',
+    readModels: (data) => ((data as OpenAIModels).data ?? []).map(m => m.id).filter(Boolean),
+  };
+}
+
+// Pull the bare JSON schema out of an OpenAI-style json_schema response_format
+function schemaOf(format: object): object | null {
+  const { json_schema } = format as { json_schema?: { schema?: object } };
+  return json_schema?.schema ?? null;
+}
+
+export const LLM_PROVIDERS: Record<LLMProviderKind, LLMProvider> = {
+  lmstudio: openAICompatible('LM Studio', 'http://localhost:1234', false),
+  // llama.cpp's server takes the schema on a json_object response_format
+  llamacpp: openAICompatible('llama.cpp', 'http://localhost:8080', false, (format) => {
+    const schema = schemaOf(format);
+    return { response_format: schema ? { type: 'json_object', schema } : format };
+  }),
+  openai: openAICompatible('OpenAI-compatible', 'http://localhost:8000/v1', true),
+  ollama: {
+    label: 'Ollama',
+    defaultBaseUrl: 'http://localhost:11434',
+    requiresModel: true,
+    streamFormat: 'ndjson',
+    buildRequest: (settings, request, stream) => {
+      const schema = request.responseFormat && schemaOf(request.responseFormat);
+      return {
+        url: endpoint(settings.baseUrl, '/api/chat'),
+        body: {
+          model: settings.model,
+          messages: request.messages,
+          stream,
+          options: { temperature: request.temperature, num_predict: request.maxTokens },
+          ...(request.responseFormat && { format: schema ?? 'json' }),
+        },
+      };
+    },
+    readCompletion: (data) => (data as OllamaResponse).message?.content ?? '',
+    readChunk: (chunk) => (chunk as OllamaResponse).message?.content ?? null,
+    modelsPath: '/api/tags',
+    readModels: (data) => ((data as OllamaModels).models ?? []).map(m => m.name).filter(Boolean),
+  },
+};
+
+export const PROVIDER_KINDS = Object.keys(LLM_PROVIDERS) as LLMProviderKind[];
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'lmstudio',
+  baseUrl: LLM_PROVIDERS.lmstudio.defaultBaseUrl,
+  model: '',
+  taskModels: {},
+  apiKey: '',
+  timeoutSec: 60,
+  maxRetries: 2,
+};
+
+const RETRY_BASE_DELAY_MS = 1000;
+
+// A failed request, and whether trying again might help
+export class LLMRequestError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+// The caller called the request off (round ended); not a failure worth reporting
+export function isCancelled(error: unknown) {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function cancelledError() {
+  return new DOMException('Request cancelled', 'AbortError');
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+const LLM_STORAGE_KEY = 'christmas-riddle-game:llm';
+
+export function loadLLMSettings(): LLMSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LLM_STORAGE_KEY) ?? 'null');
+    return stored ? { ...DEFAULT_LLM_SETTINGS, ...stored } : DEFAULT_LLM_SETTINGS;
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+}
+
+export function saveLLMSettings(settings: LLMSettings) {
+  try {
+    localStorage.setItem(LLM_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage unavailable (private mode); settings just won't persist
+  }
+}
+
+export function modelFor(settings: LLMSettings, task?: LLMTask) {
+  return (task && settings.taskModels[task]) || settings.model;
+}
+
+export function describeBackend(settings: LLMSettings) {
+  return `${LLM_PROVIDERS[settings.provider].label} at ${settings.baseUrl}`;
+}
+
+function authHeaders(settings: LLMSettings): Record<string, string> {
+  return settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+}
+
+interface CompleteChatOptions {
+  // Stream the reply, reporting each new piece as it arrives
+  onToken?: (token: string) => void;
+  // Aborting it cancels the request, including any retry still waiting
+  signal?: AbortSignal;
+}
+
+/**
+ * Run one chat completion against the configured backend.
+ * Timeouts, network and server errors are retried with backoff, unless part
+ * of a streamed reply was already passed on. Cancelling throws an AbortError.
+ */
+export async function completeChat(
+  settings: LLMSettings,
+  request: ChatRequest,
+  { onToken, signal }: CompleteChatOptions = {}
+): Promise<string> {
+  const provider = LLM_PROVIDERS[settings.provider];
+  if (provider.requiresModel && !settings.model.trim()) {
+    throw new LLMRequestError(`${provider.label} needs a model name`, false);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    let streamed = false;
+    try {
+      return await attemptChat(settings, request, signal, onToken && ((token) => {
+        streamed = true;
+        onToken(token);
+      }));
+    } catch (error) {
+      const retryable = error instanceof LLMRequestError ? error.retryable : error instanceof TypeError;
+      if (isCancelled(error) || streamed || !retryable || attempt >= settings.maxRetries) throw error;
+
+      const delayMs = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      console.warn(`${provider.label} request failed (${(error as Error).message}), retrying in ${delayMs}ms`);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+async function attemptChat(
+  settings: LLMSettings,
+  request: ChatRequest,
+  signal: AbortSignal | undefined,
+  onToken: ((token: string) => void) | undefined
+): Promise<string> {
+  const provider = LLM_PROVIDERS[settings.provider];
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel, { once: true });
+  if (signal?.aborted) controller.abort();
+
+  // Restarted whenever the server sends something, so long streamed replies aren't cut off
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const stillAlive = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, settings.timeoutSec * 1000);
+  };
+  stillAlive();
+
+  try {
+    const { url, body } = provider.buildRequest(settings, request, !!onToken);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders(settings) },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    stillAlive();
+
+    if (!response.ok) {
+      const retryable = response.status >= 500 || response.status === 429;
+      throw new LLMRequestError(`${provider.label} error: ${response.status} ${response.statusText}`, retryable);
+    }
+
+    if (onToken) {
+      return await readStream(response, provider, onToken, stillAlive);
+    }
+    return provider.readCompletion(await response.json());
+  } catch (error) {
+    if (timedOut) {
+      throw new LLMRequestError(`${provider.label} did not answer within ${settings.timeoutSec}s`, true);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+// Names of the models the server has available
+export async function listModels(settings: LLMSettings, signal?: AbortSignal): Promise<string[]> {
+  const provider = LLM_PROVIDERS[settings.provider];
+  const response = await fetch(endpoint(settings.baseUrl, provider.modelsPath), {
+    headers: authHeaders(settings),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`${provider.label} error: ${response.status} ${response.statusText}`);
+  }
+  return provider.readModels(await response.json());
+}
+
+// Every model the game will use; '' is whichever the server has loaded
+export function modelsInUse(settings: LLMSettings) {
+  return [...new Set([settings.model, ...LLM_TASKS.map(({ task }) => modelFor(settings, task))])];
+}
+
+// Every model the game will use, once, so it's loaded before the first riddle
+export async function warmUpModels(settings: LLMSettings) {
+  for (const model of modelsInUse(settings)) {
+    await completeChat({ ...settings, model }, {
+      messages: [{ role: 'user', content: 'Say hi.' }],
+      temperature: 0,
+      maxTokens: 1,
+    });
+  }
+}
+
+// Read a streamed completion chunk by chunk, returning the full text
+async function readStream(
+  response: Response,
+  provider: LLMProvider,
+  onToken: (token: string) => void,
+  onActivity: () => void
+): Promise<string> {
+  if (!response.body) {
+    throw new Error(`${provider.label} error: empty stream`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+
+  // Returns true at the SSE end marker
+  const readLine = (line: string) => {
+    let data = line.trim();
+    if (provider.streamFormat === 'sse') {
+      if (!data.startsWith('data:')) return false;
+      data = data.slice(5).trim();
+      if (data === '[DONE]') return true;
+    } else if (!data) {
+      return false;
+    }
+
+    try {
+      const token = provider.readChunk(JSON.parse(data));
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+    } catch {
+      console.warn('Skipping malformed stream chunk:', data);
+    }
+    return false;
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onActivity();
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (readLine(line)) return content;
+    }
+  }
+
+  // The last line may come without a newline (Ollama's final chunk can)
+  buffer += decoder.decode();
+  if (buffer) readLine(buffer);
+
+  return content;
+}
@@ -0,0 +1,58 @@
+// Per-word countdown and the automatic actions it triggers along the way.
+
+export interface RoundTimerSettings {
+  enabled: boolean;
+  durationSec: number;
+  /** Give a hint once this fraction of the time has passed (0 = never) */
+  autoHintAt: number;
+  /** Play a warning sound with this many seconds left (0 = never) */
+  warningAtSec: number;
+  /** Reveal the answer and end the word when time runs out */
+  revealAtZero: boolean;
+}
+
+export const DEFAULT_ROUND_TIMER_SETTINGS: RoundTimerSettings = {
+  enabled: true,
+  durationSec: 180,
+  autoHintAt: 0.5,
+  warningAtSec: 10,
+  revealAtZero: true,
+};
+
+// What the display needs to draw the countdown
+export interface RoundTimer {
+  durationMs: number;
+  /** Admin clock; the display corrects for its own clock via the heartbeat */
+  endsAt: number;
+  warningMs: number;
+}
+
+export type TimerAction = 'auto_hint' | 'warning' | 'time_up';
+
+export function createRoundTimer(settings: RoundTimerSettings, now = Date.now()): RoundTimer {
+  const durationMs = settings.durationSec * 1000;
+  return { durationMs, endsAt: now + durationMs, warningMs: settings.warningAtSec * 1000 };
+}
+
+export function timeLeft(timer: RoundTimer, now = Date.now()) {
+  return Math.max(0, timer.endsAt - now);
+}
+
+// Actions whose threshold has been reached, in the order they'd naturally fire
+export function dueTimerActions(settings: RoundTimerSettings, timer: RoundTimer, now = Date.now()): TimerAction[] {
+  const remaining = timeLeft(timer, now);
+  const elapsed = timer.durationMs - remaining;
+  const due: TimerAction[] = [];
+  if (settings.autoHintAt > 0 && elapsed >= timer.durationMs * settings.autoHintAt) due.push('auto_hint');
+  if (settings.warningAtSec > 0 && remaining <= settings.warningAtSec * 1000) due.push('warning');
+  if (settings.revealAtZero && remaining === 0) due.push('time_up');
+  return due;
+}
+
+// 2:05, or 0:09
+export function formatCountdown(ms: number) {
+  const totalSec = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSec / 60);
+  const seconds = totalSec % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
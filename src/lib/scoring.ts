@@ -0,0 +1,92 @@
+// Points for teams. Pure rules here; GameContext keeps the running totals.
+
+export interface ScoringRules {
+  /** Points for solving the riddle */
+  basePoints: number;
+  /** Taken off a solve for every hint used this round */
+  hintPenalty: number;
+  /** Extra points for an instant solve, shrinking to zero over timeBonusWindowSec */
+  timeBonusMax: number;
+  timeBonusWindowSec: number;
+  /** Taken off for every wrong guess */
+  wrongGuessPenalty: number;
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  basePoints: 100,
+  hintPenalty: 20,
+  timeBonusMax: 50,
+  timeBonusWindowSec: 120,
+  wrongGuessPenalty: 10,
+};
+
+export interface TeamScore {
+  team: string;
+  score: number;
+  solves: number;
+  wrongGuesses: number;
+}
+
+// The most recent change, so the display can animate it
+export interface ScoreEvent {
+  id: number;
+  team: string;
+  points: number;
+  reason: string;
+}
+
+export function timeBonus(rules: ScoringRules, elapsedMs: number) {
+  const windowMs = rules.timeBonusWindowSec * 1000;
+  if (windowMs <= 0 || elapsedMs >= windowMs) return 0;
+  return Math.round(rules.timeBonusMax * (1 - Math.max(0, elapsedMs) / windowMs));
+}
+
+/**
+ * Points for a solve: base, minus hint penalties, plus the time bonus.
+ * Never negative; using every hint still beats not solving.
+ */
+export function solvePoints(rules: ScoringRules, hintsUsed: number, elapsedMs: number) {
+  const points = rules.basePoints - rules.hintPenalty * hintsUsed + timeBonus(rules, elapsedMs);
+  return Math.max(0, points);
+}
+
+export function describeSolve(rules: ScoringRules, hintsUsed: number, elapsedMs: number) {
+  const parts = [`${rules.basePoints} solve`];
+  if (hintsUsed > 0 && rules.hintPenalty > 0) parts.push(`-${rules.hintPenalty * hintsUsed} hints`);
+  const bonus = timeBonus(rules, elapsedMs);
+  if (bonus > 0) parts.push(`+${bonus} speed`);
+  return parts.join(', ');
+}
+
+export type ScoreOutcome = 'solve' | 'wrong' | 'adjust';
+
+// Add points to a team (creating it if new) and count the solve or miss; a count of -1 takes one back
+export function applyScore(
+  teams: TeamScore[],
+  team: string,
+  points: number,
+  outcome: ScoreOutcome,
+  count = 1
+): TeamScore[] {
+  const current = teams.find(t => t.team === team) ?? { team, score: 0, solves: 0, wrongGuesses: 0 };
+  const updated: TeamScore = {
+    ...current,
+    score: current.score + points,
+    solves: current.solves + (outcome === 'solve' ? count : 0),
+    wrongGuesses: current.wrongGuesses + (outcome === 'wrong' ? count : 0),
+  };
+  return teams.some(t => t.team === team)
+    ? teams.map(t => t.team === team ? updated : t)
+    : [...teams, updated];
+}
+
+export function rankTeams(teams: TeamScore[]) {
+  return [...teams].sort((a, b) => b.score - a.score || a.team.localeCompare(b.team));
+}
+
+// Teams sharing the top score; empty when nobody has played
+export function findWinners(teams: TeamScore[]) {
+  const ranked = rankTeams(teams);
+  if (ranked.length === 0) return [];
+  return ranked.filter(t => t.score === ranked[0].score);
+}
@@ -0,0 +1,33 @@
+// Splits streamed text into speakable sentences as it arrives.
+
+// Sentence end followed by whitespace; closing quotes/brackets stay with their sentence
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+/g;
+
+// Without punctuation, speak long runs anyway so a rambling reply doesn't stall the voice
+const MAX_SENTENCE_LENGTH = 200;
+
+/**
+ * Pull every complete sentence off the front of `buffer`.
+ * The unfinished remainder is returned so the next chunk can extend it.
+ */
+export function takeSentences(buffer: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of buffer.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    const sentence = buffer.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+
+  let rest = buffer.slice(start);
+  while (rest.length > MAX_SENTENCE_LENGTH) {
+    const cut = Math.max(rest.lastIndexOf(',', MAX_SENTENCE_LENGTH), rest.lastIndexOf(' ', MAX_SENTENCE_LENGTH));
+    const at = cut > 0 ? cut + 1 : MAX_SENTENCE_LENGTH;
+    sentences.push(rest.slice(0, at).trim());
+    rest = rest.slice(at);
+  }
+
+  return { sentences, rest };
+}
@@ -0,0 +1,75 @@
+// A tournament session: several rounds of several words each, scores carried throughout.
+// Pure state transitions; the admin page drives them as words are solved or skipped.
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface SessionSettings {
+  rounds: number;
+  wordsPerRound: number;
+  /** Go from easy in the first round to hard in the last, instead of the fixed difficulty */
+  rampDifficulty: boolean;
+}
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  rounds: 3,
+  wordsPerRound: 3,
+  rampDifficulty: true,
+};
+
+export type SessionPhase = 'playing' | 'intermission' | 'finished';
+
+export interface SessionState {
+  phase: SessionPhase;
+  /** 1-based; during an intermission, the round that just ended */
+  round: number;
+  totalRounds: number;
+  /** 1-based word within the round */
+  word: number;
+  wordsPerRound: number;
+  difficulty: Difficulty;
+}
+
+const DIFFICULTY_ORDER: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export function roundDifficulty(
+  round: number,
+  settings: Pick<SessionSettings, 'rounds' | 'rampDifficulty'>,
+  base: Difficulty
+): Difficulty {
+  if (!settings.rampDifficulty || settings.rounds <= 1) return base;
+  const step = Math.round(((round - 1) * (DIFFICULTY_ORDER.length - 1)) / (settings.rounds - 1));
+  return DIFFICULTY_ORDER[step];
+}
+
+export function createSession(settings: SessionSettings, base: Difficulty): SessionState {
+  return {
+    phase: 'playing',
+    round: 1,
+    totalRounds: settings.rounds,
+    word: 1,
+    wordsPerRound: settings.wordsPerRound,
+    difficulty: roundDifficulty(1, settings, base),
+  };
+}
+
+// A word was solved or skipped: next word, an intermission, or the end
+export function advanceSession(session: SessionState): SessionState {
+  if (session.word < session.wordsPerRound) {
+    return { ...session, word: session.word + 1 };
+  }
+  if (session.round < session.totalRounds) {
+    return { ...session, phase: 'intermission' };
+  }
+  return { ...session, phase: 'finished' };
+}
+
+export function startNextRound(session: SessionState, settings: SessionSettings, base: Difficulty): SessionState {
+  const round = session.round + 1;
+  return {
+    ...session,
+    phase: 'playing',
+    round,
+    word: 1,
+    difficulty: roundDifficulty(round, { ...settings, rounds: session.totalRounds }, base),
+  };
+}
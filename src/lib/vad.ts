@@ -0,0 +1,185 @@
+// Energy + spectral voice activity detection over raw PCM frames.
+// Frames are fed in as they arrive from the mic; one clip is emitted per utterance.
+
+export interface VadOptions {
+  /** Minimum RMS level a frame needs to count as speech */
+  energyThreshold: number;
+  /** Speech must also be this many times louder than the tracked noise floor */
+  noiseMultiplier: number;
+  /** Fraction of spectral energy that must fall in the voice band (300-3400Hz) */
+  speechBandRatio: number;
+  /** Speech shorter than this is treated as a click or bump and dropped */
+  minSpeechMs: number;
+  /** Silence needed after speech before the utterance is closed */
+  trailingSilenceMs: number;
+  /** Audio kept from before the onset so the first syllable isn't clipped */
+  preRollMs: number;
+  /** Hard cap so one long ramble still gets transcribed */
+  maxUtteranceMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  energyThreshold: 0.015,
+  noiseMultiplier: 2.5,
+  speechBandRatio: 0.45,
+  minSpeechMs: 250,
+  trailingSilenceMs: 700,
+  preRollMs: 300,
+  maxUtteranceMs: 10000,
+};
+
+export type VadEvent =
+  | { type: 'speech_start' }
+  | { type: 'speech_confirmed' }
+  | { type: 'speech_end'; clip: Float32Array; durationMs: number }
+  | { type: 'speech_discarded' };
+
+const VOICE_BAND_LOW_HZ = 300;
+const VOICE_BAND_HIGH_HZ = 3400;
+
+// Noise floor adapts slowly while nobody is talking
+const NOISE_FLOOR_SMOOTHING = 0.05;
+
+export function frameRms(frame: Float32Array) {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sum += frame[i] * frame[i];
+  }
+  return frame.length > 0 ? Math.sqrt(sum / frame.length) : 0;
+}
+
+// Share of energy inside the voice band, from AnalyserNode dB magnitudes
+export function voiceBandRatio(spectrumDb: Float32Array, sampleRate: number) {
+  const binHz = sampleRate / 2 / spectrumDb.length;
+  let voice = 0;
+  let total = 0;
+  for (let i = 0; i < spectrumDb.length; i++) {
+    const power = Math.pow(10, spectrumDb[i] / 10);
+    total += power;
+    const hz = i * binHz;
+    if (hz >= VOICE_BAND_LOW_HZ && hz <= VOICE_BAND_HIGH_HZ) {
+      voice += power;
+    }
+  }
+  return total > 0 ? voice / total : 0;
+}
+
+export function createVoiceActivityDetector(sampleRate: number, options: Partial<VadOptions> = {}) {
+  let opts: VadOptions = { ...DEFAULT_VAD_OPTIONS, ...options };
+
+  let inSpeech = false;
+  let speechMs = 0;
+  let silenceMs = 0;
+  let confirmed = false;
+  let noiseFloor = opts.energyThreshold / opts.noiseMultiplier;
+  let preRoll: Float32Array[] = [];
+  let preRollMs = 0;
+  let utterance: Float32Array[] = [];
+  let utteranceMs = 0;
+
+  const frameMs = (frame: Float32Array) => (frame.length / sampleRate) * 1000;
+
+  const isSpeechFrame = (rms: number, bandRatio: number) =>
+    rms >= opts.energyThreshold &&
+    rms >= noiseFloor * opts.noiseMultiplier &&
+    bandRatio >= opts.speechBandRatio;
+
+  const finish = (): VadEvent => {
+    const keep = speechMs >= opts.minSpeechMs;
+    const durationMs = utteranceMs;
+    const clip = keep ? concat(utterance) : null;
+    inSpeech = false;
+    speechMs = 0;
+    silenceMs = 0;
+    confirmed = false;
+    utterance = [];
+    utteranceMs = 0;
+    return clip ? { type: 'speech_end', clip, durationMs } : { type: 'speech_discarded' };
+  };
+
+  const process = (frame: Float32Array, bandRatio: number): VadEvent | null => {
+    const ms = frameMs(frame);
+    const rms = frameRms(frame);
+    const speech = isSpeechFrame(rms, bandRatio);
+
+    if (!inSpeech) {
+      if (!speech) {
+        // Gated (zeroed) frames say nothing about the room, so don't learn from them
+        if (rms > 0) {
+          noiseFloor += (rms - noiseFloor) * NOISE_FLOOR_SMOOTHING;
+        }
+        preRoll.push(frame);
+        preRollMs += ms;
+        while (preRollMs > opts.preRollMs && preRoll.length > 1) {
+          preRollMs -= frameMs(preRoll.shift()!);
+        }
+        return null;
+      }
+
+      inSpeech = true;
+      utterance = [...preRoll, frame];
+      utteranceMs = preRollMs + ms;
+      speechMs = ms;
+      silenceMs = 0;
+      preRoll = [];
+      preRollMs = 0;
+      return { type: 'speech_start' };
+    }
+
+    utterance.push(frame);
+    utteranceMs += ms;
+    if (speech) {
+      speechMs += ms;
+      silenceMs = 0;
+    } else {
+      silenceMs += ms;
+    }
+
+    if (silenceMs >= opts.trailingSilenceMs || utteranceMs >= opts.maxUtteranceMs) {
+      return finish();
+    }
+    // Reported once per utterance, as soon as it's long enough to be real speech
+    if (!confirmed && speechMs >= opts.minSpeechMs) {
+      confirmed = true;
+      return { type: 'speech_confirmed' };
+    }
+    return null;
+  };
+
+  // Retune thresholds without dropping the tracked noise floor or an open utterance
+  const configure = (next: Partial<VadOptions>) => {
+    opts = { ...DEFAULT_VAD_OPTIONS, ...next };
+  };
+
+  return { process, configure, isSpeaking: () => inSpeech };
+}
+
+export type VoiceActivityDetector = ReturnType<typeof createVoiceActivityDetector>;
+
+function concat(frames: Float32Array[]) {
+  const length = frames.reduce((n, f) => n + f.length, 0);
+  const out = new Float32Array(length);
+  let offset = 0;
+  for (const f of frames) {
+    out.set(f, offset);
+    offset += f.length;
+  }
+  return out;
+}
+
+// Downsample by averaging each window (a cheap low-pass) to the transcriber's rate
+export function resample(samples: Float32Array, fromRate: number, toRate: number) {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const out = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(samples.length, Math.max(start + 1, Math.floor((i + 1) * ratio)));
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += samples[j];
+    }
+    out[i] = sum / (end - start);
+  }
+  return out;
+}
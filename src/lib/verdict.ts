@@ -0,0 +1,123 @@
+import { z } from 'zod';
+
+// Structured reply Santa gives to every player input.
+// Requested as structured output from the model backend and validated here, since small
+// local models still drift from the schema now and then.
+
+export const verdictSchema = z.object({
+  kind: z.enum(['question', 'guess']),
+  verdict: z.enum(['correct', 'incorrect', 'none']),
+  reply: z.string().trim().min(1),
+  confidence: z.number().min(0).max(1),
+});
+
+// Declared by hand: with strict mode off, z.infer marks every field optional
+export interface SantaVerdict {
+  kind: 'question' | 'guess';
+  verdict: 'correct' | 'incorrect' | 'none';
+  reply: string;
+  confidence: number;
+}
+
+// JSON Schema sent to the model. Property order matters: kind and verdict come
+// first so the outcome is known before the reply text starts streaming.
+export const VERDICT_JSON_SCHEMA = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'santa_verdict',
+    strict: true,
+    schema: {
+      type: 'object',
+      properties: {
+        kind: { type: 'string', enum: ['question', 'guess'] },
+        verdict: { type: 'string', enum: ['correct', 'incorrect', 'none'] },
+        reply: { type: 'string' },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+      },
+      required: ['kind', 'verdict', 'reply', 'confidence'],
+      additionalProperties: false,
+    },
+  },
+} as const;
+
+export interface PartialVerdict {
+  kind?: SantaVerdict['kind'];
+  verdict?: SantaVerdict['verdict'];
+  reply: string;
+}
+
+/**
+ * Parse and validate a complete model output.
+ * Throws when the output isn't valid JSON or doesn't match the schema.
+ */
+export function parseVerdict(raw: string): SantaVerdict {
+  // Some models wrap JSON in a markdown fence despite response_format
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error(`Malformed verdict JSON: ${raw.slice(0, 200)}`);
+  }
+
+  const result = verdictSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid verdict: ${result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join(', ')}`);
+  }
+
+  // A question never carries a verdict, whatever the model claims
+  const verdict = result.data as SantaVerdict;
+  return verdict.kind === 'question' ? { ...verdict, verdict: 'none' } : verdict;
+}
+
+// Decode the body of a JSON string that may still be streaming in
+function readPartialJsonString(text: string, start: number) {
+  let value = '';
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') return value;
+    if (ch !== '\\') {
+      value += ch;
+      continue;
+    }
+
+    const esc = text[i + 1];
+    if (esc === undefined) return value; // escape split across chunks
+    if (esc === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) return value;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[esc] ?? esc;
+      i += 1;
+    }
+  }
+  return value;
+}
+
+// Incrementally pull kind, verdict and reply text out of a streaming JSON verdict
+export function createVerdictStreamParser() {
+  let raw = '';
+
+  const push = (delta: string): PartialVerdict => {
+    raw += delta;
+    const partial: PartialVerdict = { reply: '' };
+
+    const kind = raw.match(/"kind"\s*:\s*"(question|guess)"/);
+    if (kind) partial.kind = kind[1] as SantaVerdict['kind'];
+
+    const verdict = raw.match(/"verdict"\s*:\s*"(correct|incorrect|none)"/);
+    if (verdict) partial.verdict = verdict[1] as SantaVerdict['verdict'];
+
+    const reply = raw.match(/"reply"\s*:\s*"/);
+    if (reply) partial.reply = readPartialJsonString(raw, reply.index! + reply[0].length);
+
+    return partial;
+  };
+
+  const finish = () => parseVerdict(raw);
+
+  return { push, finish };
+}
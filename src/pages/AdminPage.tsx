@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
@@ -7,6 +7,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { toast } from '@/hooks/use-toast';
 import { 
   Play, 
@@ -25,14 +26,57 @@ import {
   Volume2,
   VolumeX,
   Send,
+  Smartphone,
+  Trophy,
+  Plus,
+  Minus,
+  X,
+  Eye,
+  Undo2,
+  Bot,
+  RefreshCw,
+  Flame,
 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
-import { useGame, GameParams } from '@/contexts/GameContext';
+import { useGame, GameParams, MAX_UNDO_ENTRIES } from '@/contexts/GameContext';
 import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
-import { usePiperTTS } from '@/hooks/usePiperTTS';
-import { useLMStudio } from '@/hooks/useLMStudio';
-import { useWindowChannel, openUserDisplay, CharacterEmotion } from '@/hooks/useWindowChannel';
+import { usePiperTTS, type SpeechStream } from '@/hooks/usePiperTTS';
+import { useLLM } from '@/hooks/useLLM';
+import { useAudioDevices } from '@/hooks/useAudioDevices';
+import { useDisplayPresence } from '@/hooks/useDisplayPresence';
+import { usePlayerControllers, JoinedPlayer } from '@/hooks/usePlayerControllers';
+import { useRoundTimer } from '@/hooks/useRoundTimer';
+import { useLLMHealth } from '@/hooks/useLLMHealth';
+import { useConversationMemory, type MemorySnapshot } from '@/hooks/useConversationMemory';
+import { DEFAULT_MEMORY_SETTINGS, MemorySettings } from '@/lib/conversationMemory';
+import { useReplyModeration, DEFAULT_MODERATION_SETTINGS, ModerationSettings } from '@/hooks/useReplyModeration';
+import { buildDisplayUrl, buildPlayUrl, generateRoomCode, loadRelaySettings, saveRelaySettings, RelaySettings } from '@/lib/channelTransport';
+import { useWindowChannel, openUserDisplay, describeVersionMismatch, CharacterEmotion } from '@/hooks/useWindowChannel';
+import { DEFAULT_VAD_OPTIONS, VadOptions } from '@/lib/vad';
+import type { SantaVerdict } from '@/lib/verdict';
+import type { LeakIncident } from '@/lib/leakGuard';
+import { buildLocalVerdict, formatWordList, matchGuess, parseWordList } from '@/lib/answerMatcher';
+import { describeSolve, findWinners, rankTeams, solvePoints, ScoringRules } from '@/lib/scoring';
+import { advanceSession, createSession, startNextRound, Difficulty, SessionSettings } from '@/lib/session';
+import { createRoundTimer, formatCountdown, RoundTimer, RoundTimerSettings, TimerAction } from '@/lib/roundTimer';
+import { playWarningChime } from '@/lib/chime';
+import {
+  describeBackend,
+  isCancelled,
+  loadLLMSettings,
+  modelsInUse,
+  saveLLMSettings,
+  warmUpModels,
+  LLM_PROVIDERS,
+  LLM_TASKS,
+  PROVIDER_KINDS,
+  LLMProviderKind,
+  LLMSettings,
+  LLMTask,
+} from '@/lib/llmProviders';
+import { createEchoGate, DEFAULT_ECHO_GATE_OPTIONS, EchoGateOptions } from '@/lib/echoGate';
 import { ChristmasCharacter } from '@/components/ChristmasCharacter';
+import { ReplyReviewCard } from '@/components/ReplyReviewCard';
 
 const DEFAULT_WORDS = [
   'snowflake', 'reindeer', 'mistletoe', 'gingerbread', 'candy cane',
@@ -42,11 +86,49 @@ const DEFAULT_WORDS = [
   'presents', 'fireplace', 'sugarplum', 'angel', 'star',
 ];
 
+// Leak incidents kept for the host to review
+const MAX_LEAK_INCIDENTS = 20;
+
+// A guess or question waiting for Santa, from the room mic, the admin or a phone
+interface QueuedInput {
+  text: string;
+  player?: JoinedPlayer;
+}
+
+// The last input Santa judged, so the host can overrule him
+interface Judgement {
+  input: string;
+  team: string;
+  kind: 'question' | 'guess';
+  correct: boolean;
+  // What the verdict did to the team's score, so an override can take it back
+  points: number;
+  scored: boolean;
+  elapsedMs: number;
+  // The clock as it was before a solve stopped it
+  timer: RoundTimer | null;
+}
+
+// Radix Select can't use '' as an item value
+const SYSTEM_DEFAULT_DEVICE = '__system_default__';
+const NO_TEAM = '__no_team__';
+const DEFAULT_MODEL_OPTION = '__default_model__';
+
+// Step for the host's manual score buttons
+const MANUAL_SCORE_STEP = 10;
+
+// While Santa talks, only clearly louder and longer speech may interrupt him,
+// so his own voice leaking into the mic doesn't cut him off
+const BARGE_IN_THRESHOLD_SCALE = 2.5;
+const BARGE_IN_MIN_SPEECH_MS = 400;
+
 export default function AdminPage() {
   const { 
     params, setParams, 
     gameState, updateGameState, 
     startGame, endGame, useHint, setEmotion,
+    awardPoints, revokePoints, addTeam, removeTeam, resetScores,
+    undoStack, checkpoint: checkpointGame, undo,
     isProcessing, setIsProcessing,
     isMuted, setIsMuted
   } = useGame();
@@ -54,164 +136,669 @@ export default function AdminPage() {
   const [displayWindow, setDisplayWindow] = useState<Window | null>(null);
   const [customDisplayType, setCustomDisplayType] = useState<'text' | 'image' | 'video'>('text');
   const [customDisplayContent, setCustomDisplayContent] = useState('');
-  const [tempWordList, setTempWordList] = useState(params.wordList.join('\n'));
+  const [tempWordList, setTempWordList] = useState(formatWordList(params.wordList, params.aliases));
   const [backupTextInput, setBackupTextInput] = useState('');
-  const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
-  const [selectedDeviceId, setSelectedDeviceId] = useState<string>('');
+  // Team credited for guesses from the room mic and the text box ('' = nobody)
+  const [micTeam, setMicTeam] = useState('');
+  const [newTeamName, setNewTeamName] = useState('');
   const [lastAIResponse, setLastAIResponse] = useState<string>('');
-  const processingQueueRef = useRef<string[]>([]);
+  const [lastVerdict, setLastVerdict] = useState<SantaVerdict | null>(null);
+  const [lastJudgement, setLastJudgement] = useState<Judgement | null>(null);
+  const [vadOptions, setVadOptions] = useState<VadOptions>(DEFAULT_VAD_OPTIONS);
+  const [bargeInEnabled, setBargeInEnabled] = useState(false);
+  const [echoOptions, setEchoOptions] = useState<EchoGateOptions>(DEFAULT_ECHO_GATE_OPTIONS);
+  const [echoGate] = useState(() => createEchoGate(DEFAULT_ECHO_GATE_OPTIONS));
+  const processingQueueRef = useRef<QueuedInput[]>([]);
   const isProcessingRef = useRef(false);
+  const bargeInPendingRef = useRef(false);
+
+  const [relaySettings, setRelaySettings] = useState<RelaySettings>(loadRelaySettings);
+  useEffect(() => {
+    saveRelaySettings(relaySettings);
+  }, [relaySettings]);
+
+  const { 
+    send,
+    subscribe,
+    sendGameState, 
+    sendSnapshot,
+    sendJoinInfo,
+    sendEmotion, 
+    sendHint, 
+    sendCustomDisplay, 
+    sendMute, 
+    sendAIResponse, 
+    sendAIResponsePartial,
+    versionMismatch,
+    relayStatus,
+  } = useWindowChannel('admin', { relay: relaySettings.enabled ? relaySettings : null });
+  const { isDisplayConnected, latencyMs } = useDisplayPresence({ send, subscribe });
+
+  // Phones can only reach the admin through the relay
+  const joinUrl = relaySettings.enabled ? buildPlayUrl(window.location.origin, relaySettings) : null;
+  const [leakIncidents, setLeakIncidents] = useState<LeakIncident[]>([]);
+  const handleLeak = useCallback((incident: LeakIncident) => {
+    setLeakIncidents(prev => [incident, ...prev].slice(0, MAX_LEAK_INCIDENTS));
+  }, []);
+
+  const [llmSettings, setLLMSettings] = useState<LLMSettings>(loadLLMSettings);
+  useEffect(() => {
+    saveLLMSettings(llmSettings);
+  }, [llmSettings]);
+  const backendLabel = LLM_PROVIDERS[llmSettings.provider].label;
+  const llmHealth = useLLMHealth(llmSettings);
+
+  const [warmUpState, setWarmUpState] = useState<'idle' | 'warming' | 'ready' | 'failed'>('idle');
+  // Which backend and models were last warmed up; a new choice gets warmed up again
+  const warmUpKey = [llmSettings.provider, llmSettings.baseUrl, ...modelsInUse(llmSettings)].join('|');
+  const warmedUpKeyRef = useRef<string | null>(null);
+  const handleWarmUp = useCallback(async () => {
+    warmedUpKeyRef.current = warmUpKey;
+    setWarmUpState('warming');
+    try {
+      await warmUpModels(llmSettings);
+      setWarmUpState('ready');
+      toast({ title: 'Models warmed up', description: 'The first riddle will be quick' });
+    } catch (error) {
+      setWarmUpState('failed');
+      toast({
+        title: 'Warm-up failed',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  }, [llmSettings, warmUpKey]);
+
+  useEffect(() => {
+    setWarmUpState('idle');
+  }, [warmUpKey]);
 
-  const { sendGameState, sendEmotion, sendHint, sendCustomDisplay, sendMute, sendAIResponse } = useWindowChannel(true);
-  const { generateRiddle, handleUserInput, generateHint, isLoading: isLMLoading } = useLMStudio();
-  const { speak, stop: stopSpeaking, isSpeaking, isPiperReady, useFallback, downloadProgress, isLoading: isTTSLoading } = usePiperTTS({
+  // Load the models as soon as the server answers, so the first riddle isn't slow.
+  // Only models it actually has: no model picked yet, or a name half typed, would just fail.
+  useEffect(() => {
+    if (llmHealth.status !== 'online' || warmedUpKeyRef.current === warmUpKey) return;
+    const { requiresModel } = LLM_PROVIDERS[llmSettings.provider];
+    const ready = modelsInUse(llmSettings).every(model => model
+      ? llmHealth.models.length === 0 || llmHealth.models.includes(model)
+      : !requiresModel);
+    if (ready) handleWarmUp();
+  }, [llmHealth.status, llmHealth.models, llmSettings, warmUpKey, handleWarmUp]);
+
+  const {
+    generateRiddle,
+    handleUserInput,
+    generateHint,
+    explainAnswer,
+    summarizeConversation,
+    cancelRequests,
+    isLoading: isLMLoading,
+  } = useLLM({
+    settings: llmSettings,
+    onLeak: handleLeak,
+  });
+  // What Santa already told the players about the current word
+  const [memorySettings, setMemorySettings] = useState<MemorySettings>(DEFAULT_MEMORY_SETTINGS);
+  const {
+    tokens: memoryTokens,
+    reset: resetMemory,
+    remember,
+    recall,
+    snapshot: snapshotMemory,
+    restore: restoreMemory,
+  } = useConversationMemory({ settings: memorySettings, summarize: summarizeConversation });
+
+  // Santa's memory goes back with the game state, so undo only forgets what came after the checkpoint
+  const memorySnapshotsRef = useRef(new Map<number, MemorySnapshot>());
+  const checkpoint = useCallback((label: string) => {
+    const id = checkpointGame(label);
+    const snapshots = memorySnapshotsRef.current;
+    snapshots.set(id, snapshotMemory());
+    if (snapshots.size > MAX_UNDO_ENTRIES) snapshots.delete(snapshots.keys().next().value);
+    return id;
+  }, [checkpointGame, snapshotMemory]);
+  const { 
+    inputs: audioInputs, 
+    outputs: audioOutputs, 
+    inputId, 
+    setInputId, 
+    outputId, 
+    setOutputId, 
+    canSelectOutput 
+  } = useAudioDevices({ requestPermission: true });
+  const { 
+    speak, 
+    speakStream,
+    stop: stopSpeaking, 
+    getReferenceLevel, 
+    isSpeaking, 
+    isPiperReady, 
+    useFallback, 
+    downloadProgress, 
+    isLoading: isTTSLoading 
+  } = usePiperTTS({
+    sinkId: outputId,
+    trackReference: echoOptions.useReference,
+    onStart: () => {
+      echoGate.ttsStarted();
+    },
     onEnd: () => {
-      // After speaking, go back to listening if game is active
+      echoGate.ttsEnded();
+      // After speaking, wait for the next guess; VAD switches to listening once someone talks
       if (gameState.isGameActive && !isMuted) {
-        setEmotion('listening');
+        setEmotion('neutral');
+        updateGameState({ statusText: 'Waiting for a guess...' });
         startListening();
       }
     }
   });
 
+  // Latest values for timers that outlive the render that set them
+  const gameStateRef = useRef(gameState);
+  gameStateRef.current = gameState;
+  const startWordRef = useRef<(difficulty: Difficulty) => void>(() => {});
+  // Bumped for every new word so a stale end-of-word timer can't end the next one
+  const wordTokenRef = useRef(0);
+
+  const announceWinner = useCallback(() => {
+    const winners = findWinners(gameStateRef.current.teams);
+    if (winners.length === 0) {
+      speak('That was the last round! Thanks for playing, and Merry Christmas!');
+    } else if (winners.length === 1) {
+      speak(`Ho ho ho! ${winners[0].team} wins with ${winners[0].score} points! Merry Christmas!`);
+    } else {
+      speak(`Ho ho ho! It's a tie between ${winners.map(w => w.team).join(' and ')}! Merry Christmas to all!`);
+    }
+  }, [speak]);
+
+  // A word was solved or skipped; in a session, move on to the next word, an intermission or the finale
+  const finishWord = useCallback((token = wordTokenRef.current) => {
+    if (token !== wordTokenRef.current) return;
+    wordTokenRef.current++;
+    // Whatever the model is still working on belongs to the word that just ended
+    cancelRequests();
+    setLastJudgement(null);
+    checkpoint('Word ended');
+    endGame();
+
+    const session = gameStateRef.current.session;
+    if (!session || session.phase !== 'playing') return;
+
+    const next = advanceSession(session);
+    updateGameState({ session: next });
+    if (next.phase === 'playing') {
+      startWordRef.current(next.difficulty);
+    } else if (next.phase === 'intermission') {
+      const [leader] = rankTeams(gameStateRef.current.teams);
+      speak(`That's the end of round ${next.round}!${leader ? ` ${leader.team} is in the lead.` : ''} Get ready for round ${next.round + 1}!`);
+    } else {
+      announceWinner();
+    }
+  }, [endGame, updateGameState, speak, announceWinner, checkpoint, cancelRequests]);
+
+  // The pause after a solve or reveal before the word ends; undo and overrides can call it off
+  const pendingFinishRef = useRef<{ timeout: ReturnType<typeof setTimeout>; scheduledAt: number; dueAt: number } | null>(null);
+  const cancelPendingFinish = useCallback(() => {
+    if (!pendingFinishRef.current) return;
+    clearTimeout(pendingFinishRef.current.timeout);
+    pendingFinishRef.current = null;
+  }, []);
+  const scheduleFinish = useCallback((delayMs: number) => {
+    cancelPendingFinish();
+    const token = wordTokenRef.current;
+    const timeout = setTimeout(() => {
+      pendingFinishRef.current = null;
+      finishWord(token);
+    }, delayMs);
+    pendingFinishRef.current = { timeout, scheduledAt: Date.now(), dueAt: Date.now() + delayMs };
+  }, [finishWord, cancelPendingFinish]);
+
+  // Optionally the host sees every model reply before the room does
+  const [moderation, setModeration] = useState<ModerationSettings>(DEFAULT_MODERATION_SETTINGS);
+  const {
+    pending: pendingReview,
+    requestReview,
+    decide: decideReview,
+    hold: holdReview,
+    cancel: cancelReview,
+  } = useReplyModeration({ timeoutSec: moderation.timeoutSec });
+
+  // A reply for a word that's over has nothing left to say
+  useEffect(() => {
+    if (!gameState.isGameActive) cancelReview();
+  }, [gameState.isGameActive, cancelReview]);
+
   const processNextInQueue = useCallback(async () => {
     if (isProcessingRef.current || processingQueueRef.current.length === 0) return;
     if (!gameState.isGameActive || isMuted) return;
 
     isProcessingRef.current = true;
-    const userInput = processingQueueRef.current.shift()!;
+    const token = wordTokenRef.current;
+    const { text: userInput, player } = processingQueueRef.current.shift()!;
+    // Solo phone players compete under their own name
+    const team = player ? (player.team || player.name) : micTeam;
 
     setEmotion('thinking');
     setIsProcessing(true);
-    updateGameState({ statusText: `Processing: "${userInput}"` });
+    updateGameState({
+      statusText: player ? `${player.name} asks: "${userInput}"` : `Processing: "${userInput}"`,
+    });
+
+    // Santa starts talking after the first sentence instead of waiting for the whole reply.
+    // The stream only opens once there's something to say, since opening it cuts off
+    // whatever he's still reading (the riddle, a hint) and a reply may never come or be held for review.
+    let stream: SpeechStream | null = null;
+    const speech = {
+      push: (text: string) => {
+        if (!text) return;
+        if (!stream) stream = speakStream();
+        stream.push(text);
+      },
+      end: () => stream?.end(),
+      finished: () => stream?.finished ?? Promise.resolve(),
+    };
+    let spoken = '';
+    let sawVerdict = false;
+    const speakUpTo = (text: string) => {
+      if (!text.startsWith(spoken)) return;
+      speech.push(text.slice(spoken.length));
+      spoken = text;
+    };
 
     try {
-      const { isCorrect, response, isQuestion } = await handleUserInput(
-        gameState.currentWord,
-        userInput,
-        gameState.currentRiddle
-      );
+      // Plain right or wrong guesses are settled locally; the model handles questions and close calls
+      const match = matchGuess(userInput, gameState.currentWord, params.aliases[gameState.currentWord]);
+      let result: SantaVerdict;
+      if (match.outcome !== 'undecided') {
+        result = buildLocalVerdict(match, userInput, gameState.currentWord);
+      } else if (moderation.enabled) {
+        // Nothing is spoken or shown until the host has seen it
+        let approved: SantaVerdict | null = null;
+        for (;;) {
+          const draft = await handleUserInput(gameState.currentWord, userInput, gameState.currentRiddle, {
+            aliases: params.aliases[gameState.currentWord],
+            memory: recall(),
+          });
+          const decision = await requestReview({ input: userInput, from: player?.name, verdict: draft });
+          if (decision.action === 'regenerate') continue;
+          if (decision.action === 'approve') approved = { ...draft, reply: decision.reply };
+          break;
+        }
+
+        if (!approved || token !== wordTokenRef.current) {
+          speech.end();
+          if (token === wordTokenRef.current) {
+            setEmotion('neutral');
+            updateGameState({ statusText: 'Waiting for a guess...' });
+          }
+          return;
+        }
+        result = approved;
+      } else {
+        // Stream the reply to the display as it's written; react to the verdict as soon as it's known
+        result = await handleUserInput(
+          gameState.currentWord,
+          userInput,
+          gameState.currentRiddle,
+          {
+            aliases: params.aliases[gameState.currentWord],
+            memory: recall(),
+            onPartial: (partial) => {
+              // Only a face so far: the attempt may still fail validation and be retried
+              if (partial.kind === 'guess' && partial.verdict && partial.verdict !== 'none' && !sawVerdict) {
+                sawVerdict = true;
+                setEmotion(partial.verdict === 'correct' ? 'happy' : 'sad');
+              }
+              if (partial.reply) {
+                setLastAIResponse(partial.reply);
+                sendAIResponsePartial(partial.reply);
+                // Spoken words can't be taken back; a solve waits for the validated verdict to say "Correct!"
+                if (partial.verdict !== 'correct') speakUpTo(partial.reply);
+              }
+            },
+            onRetry: () => {
+              // The model broke format; drop what it said and start over
+              if (stream) stream = speakStream();
+              spoken = '';
+              sawVerdict = false;
+              setEmotion('thinking');
+            },
+          }
+        );
+      }
 
-      setLastAIResponse(response);
-      sendAIResponse(response);
+      // The word ended while the model was thinking; the reply is about a riddle nobody is playing
+      if (token !== wordTokenRef.current) {
+        speech.end();
+        return;
+      }
+
+      checkpoint(`Verdict on "${userInput}"`);
+      remember({ input: userInput, verdict: result });
+      setLastVerdict(result);
+      setLastAIResponse(result.reply);
+      sendAIResponse(result.reply);
+      const elapsedMs = Date.now() - (gameState.roundStartedAt ?? Date.now());
+      const judgement: Judgement = {
+        input: userInput,
+        team,
+        kind: result.kind,
+        correct: result.kind === 'guess' && result.verdict === 'correct',
+        points: 0,
+        scored: false,
+        elapsedMs,
+        timer: gameState.timer,
+      };
       
-      if (isQuestion) {
+      if (result.kind === 'question') {
         // It was a question, show the answer
         setEmotion('neutral');
         updateGameState({ statusText: 'Answered your question!' });
-        speak(response);
-      } else if (isCorrect) {
+      } else if (result.verdict === 'correct') {
         setEmotion('happy');
-        updateGameState({ statusText: 'Correct! 🎉' });
-        speak(`Correct! ${response}`);
-        // End game after correct answer
-        setTimeout(() => endGame(), 5000);
+        speech.push('Correct! ');
+        // The round is over; guesses still waiting can't score anymore
+        processingQueueRef.current = [];
+        if (team) {
+          const points = solvePoints(params.scoring, gameState.hintsUsed, elapsedMs);
+          awardPoints(team, points, 'solve', describeSolve(params.scoring, gameState.hintsUsed, elapsedMs));
+          judgement.points = points;
+          judgement.scored = true;
+          updateGameState({ statusText: `Correct! 🎉 +${points} for ${team}` });
+        } else {
+          updateGameState({ statusText: 'Correct! 🎉' });
+        }
+        // Stop the clock, then end the word after a moment to celebrate
+        updateGameState({ timer: null });
+        scheduleFinish(5000);
       } else {
         setEmotion('sad');
         updateGameState({ statusText: 'Try again!' });
-        speak(response);
+        if (team && params.scoring.wrongGuessPenalty > 0) {
+          awardPoints(team, -params.scoring.wrongGuessPenalty, 'wrong', 'wrong guess');
+          judgement.points = -params.scoring.wrongGuessPenalty;
+          judgement.scored = true;
+        }
       }
+      setLastJudgement(judgement);
+      speakUpTo(result.reply);
+      speech.end();
     } catch (error) {
+      // The word was ended or revealed; whoever did that already took over the speaker
+      if (isCancelled(error) || token !== wordTokenRef.current) {
+        speech.end();
+        return;
+      }
       toast({
-        title: 'LM Studio Error',
-        description: 'Could not connect to LM Studio. Make sure it\'s running on localhost:1234',
+        title: `${backendLabel} Error`,
+        description: `Could not get a reply from ${describeBackend(llmSettings)}. Is it running?`,
         variant: 'destructive',
       });
+      // Cut off a half-spoken reply, but not a riddle Santa is still reading
+      if (stream) stopSpeaking();
       setEmotion('neutral');
     } finally {
       setIsProcessing(false);
-      isProcessingRef.current = false;
-      // Process next in queue
-      setTimeout(processNextInQueue, 100);
+      // Let Santa finish (or be cut off by barge-in) before the next input starts a reply over him
+      speech.finished().then(() => {
+        isProcessingRef.current = false;
+        // By then this render's callback may be stale; the latest one knows the current word
+        setTimeout(() => processNextRef.current(), 100);
+      });
     }
-  }, [gameState.isGameActive, gameState.currentWord, gameState.currentRiddle, isMuted, handleUserInput, setEmotion, setIsProcessing, updateGameState, speak, endGame, sendAIResponse]);
+  }, [gameState.isGameActive, gameState.currentWord, gameState.currentRiddle, gameState.roundStartedAt, gameState.hintsUsed, gameState.timer, params.aliases, params.scoring, micTeam, isMuted, moderation.enabled, requestReview, recall, remember, backendLabel, llmSettings, awardPoints, checkpoint, handleUserInput, setEmotion, setIsProcessing, updateGameState, speakStream, stopSpeaking, scheduleFinish, sendAIResponse, sendAIResponsePartial]);
+
+  const processNextRef = useRef(processNextInQueue);
+  processNextRef.current = processNextInQueue;
+
+  useEffect(() => {
+    echoGate.configure(echoOptions);
+  }, [echoGate, echoOptions]);
+
+  // Speech that was stopped or failed never reaches onEnd; reopen the gate anyway
+  useEffect(() => {
+    if (!isSpeaking) echoGate.ttsEnded();
+  }, [echoGate, isSpeaking]);
+
+  // Mic frames that are just Santa's voice coming back through the speakers are dropped
+  const frameGate = useCallback((frame: Float32Array, rms: number) => (
+    echoGate.passFrame(rms, getReferenceLevel(echoOptions.referenceLookbackMs), bargeInEnabled)
+  ), [echoGate, getReferenceLevel, echoOptions.referenceLookbackMs, bargeInEnabled]);
 
-  const { isListening, startListening, stopListening, isSupported: speechSupported } = useSpeechRecognition({
+  const activeVadOptions = useMemo<VadOptions>(() => (
+    bargeInEnabled && isSpeaking
+      ? {
+          ...vadOptions,
+          energyThreshold: vadOptions.energyThreshold * BARGE_IN_THRESHOLD_SCALE,
+          minSpeechMs: Math.max(vadOptions.minSpeechMs, BARGE_IN_MIN_SPEECH_MS),
+        }
+      : vadOptions
+  ), [vadOptions, bargeInEnabled, isSpeaking]);
+
+  const { 
+    isListening, 
+    isSpeechDetected,
+    startListening, 
+    stopListening, 
+    isSupported: speechSupported,
+    isTranscribing,
+    isModelReady: isSTTReady,
+    isModelLoading: isSTTLoading,
+    modelDownloadProgress: sttDownloadProgress,
+    modelError: sttError,
+  } = useSpeechRecognition({
     onResult: (transcript) => {
       if (gameState.isGameActive && !isMuted && !isSpeaking) {
-        processingQueueRef.current.push(transcript);
+        if (bargeInPendingRef.current) {
+          // An interruption jumps ahead of anything already queued
+          bargeInPendingRef.current = false;
+          processingQueueRef.current.unshift({ text: transcript });
+        } else {
+          processingQueueRef.current.push({ text: transcript });
+        }
         processNextInQueue();
       }
     },
-    onStart: () => {
-      if (!isSpeaking && !isProcessing) {
+    onSpeechStart: () => {
+      if (gameState.isGameActive && !isMuted && !isSpeaking && !isProcessing) {
         setEmotion('listening');
         updateGameState({ statusText: 'Listening...' });
       }
     },
-  });
-
-  // Fetch available audio devices
-  useEffect(() => {
-    const fetchDevices = async () => {
-      try {
-        // Request permission first to get device labels
-        await navigator.mediaDevices.getUserMedia({ audio: true });
-        const devices = await navigator.mediaDevices.enumerateDevices();
-        const audioInputs = devices.filter(d => d.kind === 'audioinput');
-        setAudioDevices(audioInputs);
-        if (audioInputs.length > 0 && !selectedDeviceId) {
-          setSelectedDeviceId(audioInputs[0].deviceId);
-        }
-      } catch (err) {
-        console.error('Could not enumerate devices:', err);
+    onSpeechConfirmed: () => {
+      // Barge-in: a player talking over Santa cuts him off
+      if (bargeInEnabled && isSpeaking && gameState.isGameActive && !isMuted) {
+        // The player is already talking, so skip the echo tail
+        echoGate.ttsEnded(0);
+        stopSpeaking();
+        bargeInPendingRef.current = true;
+        setEmotion('listening');
+        updateGameState({ statusText: 'Listening...' });
       }
-    };
-    fetchDevices();
-
-    // Listen for device changes
-    navigator.mediaDevices.addEventListener('devicechange', fetchDevices);
-    return () => {
-      navigator.mediaDevices.removeEventListener('devicechange', fetchDevices);
-    };
-  }, [selectedDeviceId]);
+    },
+    onSpeechEnd: () => {
+      if (gameState.isGameActive && !isSpeaking && !isProcessing) {
+        setEmotion('neutral');
+        updateGameState({ statusText: 'Waiting for a guess...' });
+      }
+    },
+    frameGate,
+    vad: activeVadOptions,
+    deviceId: inputId,
+  });
 
   // Sync game state to user display window
   useEffect(() => {
     sendGameState(gameState);
   }, [gameState, sendGameState]);
 
+  useEffect(() => {
+    sendJoinInfo(joinUrl);
+  }, [joinUrl, sendJoinInfo]);
+
+  // A display that opens or reloads mid-game asks to catch up
+  const snapshotRef = useRef({ gameState, lastAIResponse, joinUrl });
+  snapshotRef.current = { gameState, lastAIResponse, joinUrl };
+  useEffect(() => {
+    return subscribe('request_snapshot', () => {
+      const { gameState, lastAIResponse, joinUrl } = snapshotRef.current;
+      sendSnapshot(gameState, lastAIResponse || null, joinUrl);
+    });
+  }, [subscribe, sendSnapshot]);
+
+  const handleAddTeam = () => {
+    const team = newTeamName.trim();
+    if (!team) return;
+    addTeam(team);
+    setNewTeamName('');
+  };
+
+  const handleAdjustScore = (team: string, points: number) => {
+    checkpoint(`Score for ${team}`);
+    awardPoints(team, points, 'adjust', 'host adjustment');
+  };
+
+  const handleResetScores = () => {
+    checkpoint('Scores reset');
+    resetScores();
+  };
+
+  const handleRemoveTeam = (team: string) => {
+    checkpoint(`Removed ${team}`);
+    removeTeam(team);
+    if (micTeam === team) setMicTeam('');
+  };
+
+  const setScoring = (updates: Partial<ScoringRules>) => {
+    setParams({ ...params, scoring: { ...params.scoring, ...updates } });
+  };
+
+  const { players, removePlayer } = usePlayerControllers({ send, subscribe }, {
+    onInput: (player, text) => {
+      if (!gameState.isGameActive) return 'No game is running right now';
+      if (isMuted) return 'Santa is taking a short break';
+      processingQueueRef.current.push({ text, player });
+      processNextInQueue();
+      return null;
+    },
+  });
+
+  // Phone players' teams show up on the scoreboard as soon as they join
+  useEffect(() => {
+    players.forEach(player => addTeam(player.team || player.name));
+  }, [players, addTeam]);
+
   const handleOpenDisplay = () => {
     const win = openUserDisplay();
     setDisplayWindow(win);
     toast({ title: 'Display window opened', description: 'User display is now active' });
   };
 
-  const handleStartGame = async () => {
+  const startWord = async (difficulty: Difficulty) => {
+    const token = ++wordTokenRef.current;
+    cancelRequests();
+    cancelPendingFinish();
+    setLastJudgement(null);
     const word = startGame();
+    resetMemory(word);
     updateGameState({ statusText: 'Generating riddle...' });
     
     try {
-      const riddle = await generateRiddle(word, params.difficulty);
+      const riddle = await generateRiddle(word, difficulty, params.aliases[word]);
+      // Stopped or skipped while the riddle was being written
+      if (token !== wordTokenRef.current) return;
+      const now = Date.now();
       updateGameState({ 
         currentRiddle: riddle, 
+        roundStartedAt: now,
+        timer: params.timer.enabled ? createRoundTimer(params.timer, now) : null,
         statusText: 'Game started! Listening...' 
       });
       
-      // Speak the riddle
+      // Speak the riddle (with barge-in the mic is already open so players can cut in)
+      if (bargeInEnabled && !isMuted) {
+        startListening();
+      }
       speak(`Here's your riddle: ${riddle}`);
       setEmotion('neutral');
       
       toast({ title: 'Game Started!', description: `Secret word selected` });
     } catch (error) {
+      if (isCancelled(error) || token !== wordTokenRef.current) return;
       toast({
         title: 'Error generating riddle',
-        description: 'Check LM Studio connection',
+        description: `Check the connection to ${describeBackend(llmSettings)}`,
         variant: 'destructive',
       });
       endGame();
     }
   };
+  startWordRef.current = startWord;
 
-  const handleStopGame = () => {
+  const handleStartGame = () => {
+    // A one-off game leaves any finished session behind
+    updateGameState({ session: null });
+    startWord(params.difficulty);
+  };
+
+  const handleStartSession = () => {
+    const session = createSession(params.session, params.difficulty);
+    checkpoint('Session started');
+    resetScores();
+    updateGameState({ session });
+    startWord(session.difficulty);
+    toast({ title: 'Session started', description: `${session.totalRounds} rounds of ${session.wordsPerRound} riddles` });
+  };
+
+  const handleStartNextRound = () => {
+    const session = gameState.session;
+    if (session?.phase !== 'intermission') return;
+    const next = startNextRound(session, params.session, params.difficulty);
+    updateGameState({ session: next });
+    startWord(next.difficulty);
+  };
+
+  const handleEndSession = () => {
+    const session = gameState.session;
+    if (!session) return;
+    wordTokenRef.current++;
+    cancelRequests();
+    cancelPendingFinish();
+    setLastJudgement(null);
+    checkpoint('Session ended');
     endGame();
+    stopListening();
+    stopSpeaking();
+    processingQueueRef.current = [];
+    updateGameState({ session: { ...session, phase: 'finished' } });
+    announceWinner();
+  };
+
+  const handleStopGame = () => {
     stopListening();
     stopSpeaking();
     setEmotion('neutral');
     processingQueueRef.current = [];
-    toast({ title: 'Game ended' });
+    if (gameState.session?.phase === 'playing') {
+      // In a session, stopping a word skips to the next one
+      finishWord();
+      toast({ title: 'Word skipped' });
+    } else {
+      wordTokenRef.current++;
+      cancelRequests();
+      setLastJudgement(null);
+      checkpoint('Game stopped');
+      endGame();
+      toast({ title: 'Game ended' });
+    }
+  };
+
+  const setSessionSettings = (updates: Partial<SessionSettings>) => {
+    setParams({ ...params, session: { ...params.session, ...updates } });
   };
 
+  const session = gameState.session;
+  const isSessionRunning = !!session && session.phase !== 'finished';
+
   const handleMuteToggle = () => {
     const newMuted = !isMuted;
     setIsMuted(newMuted);
@@ -236,13 +823,17 @@ export default function AdminPage() {
       toast({ title: 'No hints remaining!', variant: 'destructive' });
       return;
     }
+    checkpoint('Hint given');
 
+    const token = wordTokenRef.current;
     try {
       const hint = await generateHint(
         gameState.currentWord,
         gameState.currentRiddle,
-        gameState.hintsUsed + 1
+        gameState.hintsUsed + 1,
+        params.aliases[gameState.currentWord]
       );
+      if (token !== wordTokenRef.current) return;
       
       updateGameState({ hintText: hint });
       sendHint(hint);
@@ -250,10 +841,166 @@ export default function AdminPage() {
       
       toast({ title: 'Hint given', description: `${gameState.hintsRemaining - 1} hints remaining` });
     } catch (error) {
+      if (isCancelled(error) || token !== wordTokenRef.current) return;
       toast({ title: 'Error generating hint', variant: 'destructive' });
     }
   };
 
+  // Show the answer, have Santa explain the riddle, then move on like after a solve
+  const revealAnswer = async (reason: 'host' | 'time_up') => {
+    const { currentWord: word, currentRiddle: riddle, isGameActive } = gameState;
+    if (!word || gameState.reveal) return;
+
+    const token = wordTokenRef.current;
+    const intro = reason === 'time_up' ? "⏰ Time's up! " : '';
+    // Ending the word first keeps late guesses out of the queue, and drops replies still being written
+    cancelRequests();
+    cancelPendingFinish();
+    setLastJudgement(null);
+    checkpoint('Answer revealed');
+    endGame();
+    stopListening();
+    stopSpeaking();
+    processingQueueRef.current = [];
+    setEmotion('happy');
+    updateGameState({ reveal: { word, explanation: null }, statusText: `${intro}The answer was "${word}"` });
+
+    let explanation: string | null = null;
+    if (riddle) {
+      try {
+        explanation = await explainAnswer(word, riddle);
+      } catch (error) {
+        console.warn('Could not explain the answer:', error);
+      }
+    }
+    // The host may have started another word in the meantime
+    if (token !== wordTokenRef.current) return;
+
+    if (explanation) updateGameState({ reveal: { word, explanation } });
+    await speak(`${reason === 'time_up' ? "Time's up! " : ''}The answer was ${word}! ${explanation ?? ''}`);
+    if (isGameActive && token === wordTokenRef.current) scheduleFinish(2000);
+  };
+
+  // The host overrules Santa's last verdict, putting scores, mood and display right
+  const overrideVerdict = (override: 'correct' | 'wrong' | 'question') => {
+    const judgement = lastJudgement;
+    if (!judgement || !gameState.isGameActive) return;
+
+    checkpoint(`Override on "${judgement.input}"`);
+    if (judgement.scored) {
+      revokePoints(judgement.team, judgement.points, judgement.correct ? 'solve' : 'wrong', 'host override');
+    }
+
+    const next: Judgement = {
+      ...judgement,
+      kind: override === 'question' ? 'question' : 'guess',
+      correct: override === 'correct',
+      points: 0,
+      scored: false,
+    };
+    let line: string;
+    if (override === 'correct') {
+      stopListening();
+      processingQueueRef.current = [];
+      next.timer = gameState.timer;
+      let status = 'Correct! 🎉';
+      if (judgement.team) {
+        next.points = solvePoints(params.scoring, gameState.hintsUsed, judgement.elapsedMs);
+        next.scored = true;
+        awardPoints(judgement.team, next.points, 'solve', 'host override');
+        status = `Correct! 🎉 +${next.points} for ${judgement.team}`;
+      }
+      setEmotion('happy');
+      updateGameState({ statusText: status, timer: null });
+      line = `Ho ho ho! My elves tell me "${judgement.input}" was right after all! Well done!`;
+      scheduleFinish(5000);
+    } else {
+      if (judgement.correct) {
+        // Santa accepted it: keep the word going and put the clock back
+        cancelPendingFinish();
+        updateGameState({ timer: judgement.timer });
+      }
+      if (override === 'wrong') {
+        if (judgement.team && params.scoring.wrongGuessPenalty > 0) {
+          next.points = -params.scoring.wrongGuessPenalty;
+          next.scored = true;
+          awardPoints(judgement.team, next.points, 'wrong', 'host override');
+        }
+        setEmotion('sad');
+        updateGameState({ statusText: 'Try again!' });
+        line = `Oops, Santa got muddled! "${judgement.input}" isn't it. Keep guessing!`;
+      } else {
+        setEmotion('neutral');
+        updateGameState({ statusText: 'Answered your question!' });
+        line = "Ho ho, that was a question, not a guess! Keep them coming!";
+      }
+    }
+
+    const verdict: SantaVerdict = {
+      kind: next.kind,
+      verdict: next.kind === 'question' ? 'none' : next.correct ? 'correct' : 'incorrect',
+      reply: line,
+      confidence: 1,
+    };
+    setLastJudgement(next);
+    setLastVerdict(verdict);
+    // Santa's next answers should go by the corrected ruling
+    remember({ input: judgement.input, verdict });
+    setLastAIResponse(line);
+    sendAIResponse(line);
+    speak(line);
+    toast({ title: 'Verdict overridden' });
+  };
+
+  const handleUndo = () => {
+    const entry = undo();
+    if (!entry) return;
+    // Whatever is still running belongs to the state we just left: the next word's riddle, a reply, a reveal
+    wordTokenRef.current++;
+    cancelRequests();
+    stopSpeaking();
+    // A pending end of word only survives if we're back to after it was scheduled
+    const pending = pendingFinishRef.current;
+    if (pending && entry.at > pending.scheduledAt && entry.state.isGameActive) {
+      scheduleFinish(Math.max(0, pending.dueAt - Date.now()));
+    } else {
+      cancelPendingFinish();
+    }
+    const memory = memorySnapshotsRef.current.get(entry.id);
+    if (memory) {
+      restoreMemory(memory);
+    } else {
+      resetMemory(entry.state.currentWord);
+    }
+    setLastJudgement(null);
+    if (entry.state.isGameActive && !isMuted) {
+      startListening();
+    } else if (!entry.state.isGameActive) {
+      stopListening();
+    }
+    toast({ title: 'Undone', description: entry.label });
+  };
+
+  const handleTimerAction = (action: TimerAction) => {
+    if (!gameState.isGameActive) return;
+    switch (action) {
+      case 'auto_hint':
+        if (gameState.hintsRemaining > 0) handleGiveHint();
+        break;
+      case 'warning':
+        playWarningChime(outputId);
+        break;
+      case 'time_up':
+        revealAnswer('time_up');
+        break;
+    }
+  };
+  const { remainingMs } = useRoundTimer(gameState.timer, params.timer, { onAction: handleTimerAction });
+
+  const setTimerSettings = (updates: Partial<RoundTimerSettings>) => {
+    setParams({ ...params, timer: { ...params.timer, ...updates } });
+  };
+
   const handleSetDisplay = () => {
     const display = {
       type: customDisplayType,
@@ -264,20 +1011,49 @@ export default function AdminPage() {
     toast({ title: 'Display updated' });
   };
 
+  const llmHealthText = llmHealth.status === 'online'
+    ? `🟢 ${backendLabel}${llmHealth.latencyMs !== null ? ` (${llmHealth.latencyMs} ms)` : ''}`
+    : llmHealth.status === 'checking' ? `🟡 Checking ${backendLabel}...` : `🔴 ${backendLabel} offline`;
+
+  const setTaskModel = (task: LLMTask, model: string) => {
+    setLLMSettings({ ...llmSettings, taskModels: { ...llmSettings.taskModels, [task]: model } });
+  };
+
+  // Switching runtime moves to its usual address unless the host typed their own
+  const handleProviderChange = (provider: LLMProviderKind) => {
+    const wasDefaultUrl = !llmSettings.baseUrl || llmSettings.baseUrl === LLM_PROVIDERS[llmSettings.provider].defaultBaseUrl;
+    setLLMSettings({
+      ...llmSettings,
+      provider,
+      baseUrl: wasDefaultUrl ? LLM_PROVIDERS[provider].defaultBaseUrl : llmSettings.baseUrl,
+    });
+  };
+
+  const networkDisplayUrl = buildDisplayUrl(window.location.origin, relaySettings);
+
+  const handleCopyDisplayUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(networkDisplayUrl);
+      toast({ title: 'Display link copied' });
+    } catch {
+      toast({ title: 'Could not copy link', description: networkDisplayUrl, variant: 'destructive' });
+    }
+  };
+
   const handleManualEmotion = (emotion: CharacterEmotion) => {
     setEmotion(emotion);
     sendEmotion(emotion);
   };
 
   const handleSaveParams = () => {
-    const words = tempWordList.split('\n').map(w => w.trim()).filter(w => w.length > 0);
-    setParams({ ...params, wordList: words });
+    const { wordList, aliases } = parseWordList(tempWordList);
+    setParams({ ...params, wordList, aliases });
     toast({ title: 'Parameters saved' });
   };
 
   const handleBackupTextSubmit = () => {
     if (!backupTextInput.trim() || !gameState.isGameActive) return;
-    processingQueueRef.current.push(backupTextInput.trim());
+    processingQueueRef.current.push({ text: backupTextInput.trim() });
     setBackupTextInput('');
     processNextInQueue();
     toast({ title: 'Text submitted', description: `Processing: "${backupTextInput.trim()}"` });
@@ -292,15 +1068,34 @@ export default function AdminPage() {
             <h1 className="text-4xl font-bold text-christmas-gold">🎄 Christmas Riddle Game</h1>
             <p className="text-muted-foreground">Admin Control Panel</p>
           </div>
-          <Button 
-            onClick={handleOpenDisplay}
-            className="bg-christmas-green hover:bg-christmas-green/80"
-          >
-            <ExternalLink className="mr-2 h-4 w-4" />
-            Open User Display
-          </Button>
+          <div className="flex items-center gap-3">
+            <Badge variant={llmHealth.status === 'offline' ? 'destructive' : 'outline'} title={llmHealth.error ?? undefined}>
+              {llmHealthText}
+            </Badge>
+            <Badge
+              variant={isDisplayConnected ? 'default' : 'outline'}
+              className={isDisplayConnected ? 'bg-christmas-green hover:bg-christmas-green' : undefined}
+            >
+              {isDisplayConnected
+                ? `🟢 Display connected${latencyMs !== null ? ` (${latencyMs} ms)` : ''}`
+                : '⚪ Display not connected'}
+            </Badge>
+            <Button 
+              onClick={handleOpenDisplay}
+              className="bg-christmas-green hover:bg-christmas-green/80"
+            >
+              <ExternalLink className="mr-2 h-4 w-4" />
+              Open User Display
+            </Button>
+          </div>
         </div>
 
+        {versionMismatch && (
+          <div className="p-3 bg-destructive/20 rounded-lg text-destructive">
+            ⚠️ {describeVersionMismatch(versionMismatch)}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main Controls */}
           <div className="lg:col-span-2 space-y-6">
@@ -316,7 +1111,7 @@ export default function AdminPage() {
                 <div className="flex flex-wrap gap-3">
                   <Button
                     onClick={handleStartGame}
-                    disabled={gameState.isGameActive || isLMLoading}
+                    disabled={gameState.isGameActive || isSessionRunning || isLMLoading}
                     className="bg-christmas-green hover:bg-christmas-green/80"
                     size="lg"
                   >
@@ -324,6 +1119,36 @@ export default function AdminPage() {
                     Start Game
                   </Button>
 
+                  {isSessionRunning ? (
+                    <>
+                      {session.phase === 'intermission' && (
+                        <Button
+                          onClick={handleStartNextRound}
+                          disabled={isLMLoading}
+                          className="bg-christmas-green hover:bg-christmas-green/80"
+                          size="lg"
+                        >
+                          <Play className="mr-2 h-5 w-5" />
+                          Start Round {session.round + 1}
+                        </Button>
+                      )}
+                      <Button onClick={handleEndSession} variant="outline" size="lg">
+                        <Trophy className="mr-2 h-5 w-5" />
+                        End Session
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      onClick={handleStartSession}
+                      disabled={gameState.isGameActive || isLMLoading}
+                      className="bg-christmas-gold text-background hover:bg-christmas-gold/80"
+                      size="lg"
+                    >
+                      <Trophy className="mr-2 h-5 w-5" />
+                      Start Session
+                    </Button>
+                  )}
+
                   <Button
                     onClick={handleStopGame}
                     disabled={!gameState.isGameActive}
@@ -331,7 +1156,28 @@ export default function AdminPage() {
                     size="lg"
                   >
                     <Square className="mr-2 h-5 w-5" />
-                    Stop Game
+                    {session?.phase === 'playing' ? 'Skip Word' : 'Stop Game'}
+                  </Button>
+
+                  <Button
+                    onClick={handleUndo}
+                    disabled={undoStack.length === 0}
+                    variant="outline"
+                    size="lg"
+                    title={undoStack[0] ? `Undo: ${undoStack[0].label}` : 'Nothing to undo'}
+                  >
+                    <Undo2 className="mr-2 h-5 w-5" />
+                    Undo
+                  </Button>
+
+                  <Button
+                    onClick={() => revealAnswer('host')}
+                    disabled={!gameState.currentWord || !!gameState.reveal}
+                    variant="outline"
+                    size="lg"
+                  >
+                    <Eye className="mr-2 h-5 w-5" />
+                    Reveal Answer
                   </Button>
 
                   <Button
@@ -353,18 +1199,22 @@ export default function AdminPage() {
                   </Button>
 
                   {/* Audio Device Selector */}
-                  <Select value={selectedDeviceId} onValueChange={setSelectedDeviceId}>
+                  <Select 
+                    value={inputId || SYSTEM_DEFAULT_DEVICE} 
+                    onValueChange={(v) => setInputId(v === SYSTEM_DEFAULT_DEVICE ? '' : v)}
+                  >
                     <SelectTrigger className="w-[180px] h-11 bg-background border-border">
                       <Mic className="mr-2 h-4 w-4 text-muted-foreground" />
                       <SelectValue placeholder="Select microphone" />
                     </SelectTrigger>
                     <SelectContent className="bg-popover border-border z-50">
-                      {audioDevices.map((device) => (
+                      <SelectItem value={SYSTEM_DEFAULT_DEVICE}>System default</SelectItem>
+                      {audioInputs.map((device, i) => (
                         <SelectItem key={device.deviceId} value={device.deviceId}>
-                          {device.label || `Microphone ${audioDevices.indexOf(device) + 1}`}
+                          {device.label || `Microphone ${i + 1}`}
                         </SelectItem>
                       ))}
-                      {audioDevices.length === 0 && (
+                      {audioInputs.length === 0 && (
                         <SelectItem value="none" disabled>
                           No microphones found
                         </SelectItem>
@@ -372,6 +1222,27 @@ export default function AdminPage() {
                     </SelectContent>
                   </Select>
 
+                  {/* Speaker Selector (Piper audio only; browser voices use the system default) */}
+                  {canSelectOutput && (
+                    <Select 
+                      value={outputId || SYSTEM_DEFAULT_DEVICE} 
+                      onValueChange={(v) => setOutputId(v === SYSTEM_DEFAULT_DEVICE ? '' : v)}
+                    >
+                      <SelectTrigger className="w-[180px] h-11 bg-background border-border">
+                        <Volume2 className="mr-2 h-4 w-4 text-muted-foreground" />
+                        <SelectValue placeholder="Select speaker" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-popover border-border z-50">
+                        <SelectItem value={SYSTEM_DEFAULT_DEVICE}>System default</SelectItem>
+                        {audioOutputs.map((device, i) => (
+                          <SelectItem key={device.deviceId} value={device.deviceId}>
+                            {device.label || `Speaker ${i + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
                   {/* Piper TTS Status */}
                   <div className="flex items-center gap-2 px-3 py-2 bg-background border border-border rounded-lg h-11">
                     <Volume2 className="h-4 w-4 text-muted-foreground" />
@@ -384,6 +1255,18 @@ export default function AdminPage() {
                     )}
                   </div>
 
+                  {/* Whisper STT Status */}
+                  <div className="flex items-center gap-2 px-3 py-2 bg-background border border-border rounded-lg h-11">
+                    <Mic className="h-4 w-4 text-muted-foreground" />
+                    {isSTTLoading ? (
+                      <span className="text-sm text-muted-foreground">Downloading speech model... {sttDownloadProgress}%</span>
+                    ) : isSTTReady ? (
+                      <span className="text-sm text-christmas-green">Whisper (offline)</span>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Typed input only</span>
+                    )}
+                  </div>
+
                   <Button
                     onClick={handleGiveHint}
                     disabled={!gameState.isGameActive || gameState.hintsRemaining <= 0}
@@ -397,12 +1280,32 @@ export default function AdminPage() {
 
                 {/* Status Indicators */}
                 <div className="flex flex-wrap gap-2">
+                  {remainingMs !== null && (
+                    <Badge variant={remainingMs <= gameState.timer.warningMs ? 'destructive' : 'secondary'}>
+                      ⏱️ {formatCountdown(remainingMs)}
+                    </Badge>
+                  )}
+                  {session && (
+                    <Badge variant="default" className="bg-christmas-gold text-background hover:bg-christmas-gold">
+                      {session.phase === 'finished'
+                        ? '🏆 Session finished'
+                        : session.phase === 'intermission'
+                          ? `☕ Break after round ${session.round}/${session.totalRounds}`
+                          : `🏁 Round ${session.round}/${session.totalRounds} · Riddle ${session.word}/${session.wordsPerRound} · ${session.difficulty}`}
+                    </Badge>
+                  )}
                   <Badge variant={gameState.isGameActive ? 'default' : 'secondary'}>
                     {gameState.isGameActive ? '🎮 Game Active' : '⏸️ Not Playing'}
                   </Badge>
                   <Badge variant={isListening ? 'default' : 'outline'}>
                     {isListening ? '🎤 Listening' : '🔇 Not Listening'}
                   </Badge>
+                  <Badge variant={isSpeechDetected ? 'default' : 'outline'}>
+                    {isSpeechDetected ? '🗣️ Speech' : '🤫 Quiet'}
+                  </Badge>
+                  <Badge variant={isTranscribing ? 'default' : 'outline'}>
+                    {isTranscribing ? '📝 Transcribing' : '📝 Idle'}
+                  </Badge>
                   <Badge variant={isSpeaking ? 'default' : 'outline'}>
                     {isSpeaking ? '🔊 Speaking' : '🔈 Silent'}
                   </Badge>
@@ -443,6 +1346,16 @@ export default function AdminPage() {
               </CardContent>
             </Card>
 
+            {/* Reply Awaiting Approval */}
+            {pendingReview && (
+              <ReplyReviewCard
+                key={pendingReview.id}
+                review={pendingReview}
+                onDecide={decideReview}
+                onEdit={holdReview}
+              />
+            )}
+
             {/* Current Game Info */}
             {gameState.isGameActive && (
               <Card className="christmas-card border-christmas-gold">
@@ -476,10 +1389,70 @@ export default function AdminPage() {
                   </div>
                   {lastAIResponse && (
                     <div>
-                      <Label className="text-muted-foreground">Last AI Response</Label>
+                      <div className="flex items-center gap-2">
+                        <Label className="text-muted-foreground">Last AI Response</Label>
+                        {lastVerdict && (
+                          <Badge variant="outline">
+                            {lastVerdict.kind === 'question' ? 'Question' : `Guess: ${lastVerdict.verdict}`}
+                            {' · '}
+                            {Math.round(lastVerdict.confidence * 100)}% sure
+                          </Badge>
+                        )}
+                      </div>
                       <p className="text-lg text-foreground bg-christmas-green/20 p-3 rounded-lg border border-christmas-green/30">
                         "{lastAIResponse}"
                       </p>
+                      {lastJudgement && (
+                        <div className="flex flex-wrap items-center gap-2 mt-2">
+                          <span className="text-sm text-muted-foreground">
+                            Overrule "{lastJudgement.input}":
+                          </span>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => overrideVerdict('correct')}
+                            disabled={lastJudgement.correct}
+                          >
+                            <Smile className="mr-1 h-4 w-4" />
+                            Mark Correct
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => overrideVerdict('wrong')}
+                            disabled={lastJudgement.kind === 'guess' && !lastJudgement.correct}
+                          >
+                            <Frown className="mr-1 h-4 w-4" />
+                            Mark Wrong
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => overrideVerdict('question')}
+                            disabled={lastJudgement.kind === 'question'}
+                          >
+                            <HelpCircle className="mr-1 h-4 w-4" />
+                            That Was a Question
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {leakIncidents.length > 0 && (
+                    <div className="space-y-2">
+                      <Label className="text-muted-foreground">Secret Word Leaks Caught ({leakIncidents.length})</Label>
+                      <ul className="space-y-1 max-h-40 overflow-y-auto text-sm">
+                        {leakIncidents.map(incident => (
+                          <li key={incident.id} className="p-2 rounded bg-destructive/10 border border-destructive/30">
+                            <span className="font-medium capitalize">{incident.source}</span>
+                            {' '}{incident.action} ({incident.matches.join(', ')}) at{' '}
+                            {new Date(incident.timestamp).toLocaleTimeString()}
+                            <p className="text-xs text-muted-foreground truncate" title={incident.original}>
+                              "{incident.original}"
+                            </p>
+                          </li>
+                        ))}
+                      </ul>
                     </div>
                   )}
                 </CardContent>
@@ -488,7 +1461,7 @@ export default function AdminPage() {
 
             {/* Tabs for Params and Display */}
             <Tabs defaultValue="display" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="display">
                   <Monitor className="mr-2 h-4 w-4" />
                   Set Display
@@ -497,6 +1470,10 @@ export default function AdminPage() {
                   <Settings className="mr-2 h-4 w-4" />
                   Parameters
                 </TabsTrigger>
+                <TabsTrigger value="llm">
+                  <Bot className="mr-2 h-4 w-4" />
+                  AI Model
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="display">
@@ -533,6 +1510,65 @@ export default function AdminPage() {
                     <Button onClick={handleSetDisplay} className="w-full">
                       Update Display
                     </Button>
+
+                    {/* Network Display */}
+                    <div className="space-y-3 pt-4 border-t border-border">
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="space-y-1">
+                          <Label htmlFor="relay-enabled">Network Display</Label>
+                          <p className="text-xs text-muted-foreground">
+                            Show the display on a TV or laptop on the same network. Start the relay with <code>npm run relay</code>.
+                          </p>
+                        </div>
+                        <Switch
+                          id="relay-enabled"
+                          checked={relaySettings.enabled}
+                          onCheckedChange={(v) => setRelaySettings({ ...relaySettings, enabled: v })}
+                        />
+                      </div>
+                      {relaySettings.enabled && (
+                        <>
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <Label>Relay Address</Label>
+                              <Badge variant={relayStatus === 'open' ? 'default' : 'outline'}>
+                                {relayStatus === 'open' ? '🟢 Relay connected' : relayStatus === 'connecting' ? '🟡 Connecting...' : '🔴 Relay unreachable'}
+                              </Badge>
+                            </div>
+                            <Input
+                              value={relaySettings.url}
+                              onChange={(e) => setRelaySettings({ ...relaySettings, url: e.target.value.trim() })}
+                              placeholder="ws://192.168.1.20:8787"
+                            />
+                            <p className="text-xs text-muted-foreground">
+                              Use this computer's network address, not localhost, so other devices can reach it
+                            </p>
+                          </div>
+                          <div className="flex items-end gap-2">
+                            <div className="space-y-2">
+                              <Label>Room Code</Label>
+                              <p className="text-2xl font-bold tracking-widest text-christmas-gold">{relaySettings.room}</p>
+                            </div>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setRelaySettings({ ...relaySettings, room: generateRoomCode() })}
+                            >
+                              New Code
+                            </Button>
+                          </div>
+                          <div className="space-y-2">
+                            <Label>Display Link</Label>
+                            <div className="flex gap-2">
+                              <Input value={networkDisplayUrl} readOnly className="font-mono text-xs" />
+                              <Button variant="secondary" onClick={handleCopyDisplayUrl}>
+                                Copy
+                              </Button>
+                            </div>
+                          </div>
+                        </>
+                      )}
+                    </div>
                   </CardContent>
                 </Card>
               </TabsContent>
@@ -566,8 +1602,253 @@ export default function AdminPage() {
                         step={1}
                       />
                     </div>
+                    <div className="space-y-4 pt-2 border-t border-border">
+                      <div className="flex items-center justify-between gap-4">
+                        <Label htmlFor="round-timer" className="text-muted-foreground">Round Timer</Label>
+                        <Switch
+                          id="round-timer"
+                          checked={params.timer.enabled}
+                          onCheckedChange={(v) => setTimerSettings({ enabled: v })}
+                        />
+                      </div>
+                      {params.timer.enabled && (
+                        <>
+                          <div className="space-y-2">
+                            <Label>Time per Riddle: {formatCountdown(params.timer.durationSec * 1000)}</Label>
+                            <Slider
+                              value={[params.timer.durationSec]}
+                              onValueChange={([v]) => setTimerSettings({ durationSec: v })}
+                              min={30}
+                              max={600}
+                              step={15}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label>
+                              Auto Hint: {params.timer.autoHintAt > 0 ? `at ${Math.round(params.timer.autoHintAt * 100)}% of the time` : 'Off'}
+                            </Label>
+                            <Slider
+                              value={[params.timer.autoHintAt * 100]}
+                              onValueChange={([v]) => setTimerSettings({ autoHintAt: v / 100 })}
+                              min={0}
+                              max={90}
+                              step={10}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label>
+                              Warning Sound: {params.timer.warningAtSec > 0 ? `${params.timer.warningAtSec}s left` : 'Off'}
+                            </Label>
+                            <Slider
+                              value={[params.timer.warningAtSec]}
+                              onValueChange={([v]) => setTimerSettings({ warningAtSec: v })}
+                              min={0}
+                              max={60}
+                              step={5}
+                            />
+                          </div>
+                          <div className="flex items-center justify-between gap-4">
+                            <div className="space-y-1">
+                              <Label htmlFor="reveal-at-zero">Reveal Answer at Zero</Label>
+                              <p className="text-xs text-muted-foreground">
+                                Otherwise the riddle keeps going until you stop it
+                              </p>
+                            </div>
+                            <Switch
+                              id="reveal-at-zero"
+                              checked={params.timer.revealAtZero}
+                              onCheckedChange={(v) => setTimerSettings({ revealAtZero: v })}
+                            />
+                          </div>
+                        </>
+                      )}
+                    </div>
+                    <div className="space-y-4 pt-2 border-t border-border">
+                      <Label className="text-muted-foreground">Session</Label>
+                      <div className="space-y-2">
+                        <Label>Rounds: {params.session.rounds}</Label>
+                        <Slider
+                          value={[params.session.rounds]}
+                          onValueChange={([v]) => setSessionSettings({ rounds: v })}
+                          min={1}
+                          max={10}
+                          step={1}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Riddles per Round: {params.session.wordsPerRound}</Label>
+                        <Slider
+                          value={[params.session.wordsPerRound]}
+                          onValueChange={([v]) => setSessionSettings({ wordsPerRound: v })}
+                          min={1}
+                          max={10}
+                          step={1}
+                        />
+                      </div>
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="space-y-1">
+                          <Label htmlFor="ramp-difficulty">Ramp Up Difficulty</Label>
+                          <p className="text-xs text-muted-foreground">
+                            Easy riddles in the first round, hard ones in the last
+                          </p>
+                        </div>
+                        <Switch
+                          id="ramp-difficulty"
+                          checked={params.session.rampDifficulty}
+                          onCheckedChange={(v) => setSessionSettings({ rampDifficulty: v })}
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-4 pt-2 border-t border-border">
+                      <Label className="text-muted-foreground">Scoring</Label>
+                      <div className="space-y-2">
+                        <Label>Points per Solve: {params.scoring.basePoints}</Label>
+                        <Slider
+                          value={[params.scoring.basePoints]}
+                          onValueChange={([v]) => setScoring({ basePoints: v })}
+                          min={0}
+                          max={500}
+                          step={10}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Hint Penalty: -{params.scoring.hintPenalty} per hint</Label>
+                        <Slider
+                          value={[params.scoring.hintPenalty]}
+                          onValueChange={([v]) => setScoring({ hintPenalty: v })}
+                          min={0}
+                          max={100}
+                          step={5}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Speed Bonus: up to +{params.scoring.timeBonusMax}</Label>
+                        <Slider
+                          value={[params.scoring.timeBonusMax]}
+                          onValueChange={([v]) => setScoring({ timeBonusMax: v })}
+                          min={0}
+                          max={200}
+                          step={10}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Speed Bonus Runs Out After: {params.scoring.timeBonusWindowSec}s</Label>
+                        <Slider
+                          value={[params.scoring.timeBonusWindowSec]}
+                          onValueChange={([v]) => setScoring({ timeBonusWindowSec: v })}
+                          min={15}
+                          max={600}
+                          step={15}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Wrong Guess Penalty: -{params.scoring.wrongGuessPenalty}</Label>
+                        <Slider
+                          value={[params.scoring.wrongGuessPenalty]}
+                          onValueChange={([v]) => setScoring({ wrongGuessPenalty: v })}
+                          min={0}
+                          max={50}
+                          step={5}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="barge-in">Let Players Interrupt Santa</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Talking over Santa stops his speech and answers the interruption next
+                        </p>
+                      </div>
+                      <Switch id="barge-in" checked={bargeInEnabled} onCheckedChange={setBargeInEnabled} />
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="moderation">Approve Santa's Replies</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Model replies wait for you before they're spoken or shown
+                        </p>
+                      </div>
+                      <Switch
+                        id="moderation"
+                        checked={moderation.enabled}
+                        onCheckedChange={(v) => setModeration({ ...moderation, enabled: v })}
+                      />
+                    </div>
+                    {moderation.enabled && (
+                      <div className="space-y-2">
+                        <Label>
+                          Auto-approve: {moderation.timeoutSec > 0 ? `after ${moderation.timeoutSec}s` : 'Never'}
+                        </Label>
+                        <Slider
+                          value={[moderation.timeoutSec]}
+                          onValueChange={([v]) => setModeration({ ...moderation, timeoutSec: v })}
+                          min={0}
+                          max={60}
+                          step={5}
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label>Voice Detection Threshold: {vadOptions.energyThreshold.toFixed(3)}</Label>
+                      <Slider
+                        value={[vadOptions.energyThreshold]}
+                        onValueChange={([v]) => setVadOptions({ ...vadOptions, energyThreshold: v })}
+                        min={0.005}
+                        max={0.1}
+                        step={0.005}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Raise this in a noisy room so background chatter isn't treated as a guess
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Minimum Speech: {vadOptions.minSpeechMs}ms</Label>
+                      <Slider
+                        value={[vadOptions.minSpeechMs]}
+                        onValueChange={([v]) => setVadOptions({ ...vadOptions, minSpeechMs: v })}
+                        min={100}
+                        max={1000}
+                        step={50}
+                      />
+                    </div>
                     <div className="space-y-2">
-                      <Label>Word List (one per line)</Label>
+                      <Label>End-of-Speech Pause: {vadOptions.trailingSilenceMs}ms</Label>
+                      <Slider
+                        value={[vadOptions.trailingSilenceMs]}
+                        onValueChange={([v]) => setVadOptions({ ...vadOptions, trailingSilenceMs: v })}
+                        min={300}
+                        max={2000}
+                        step={100}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Echo Tail: {echoOptions.tailMs}ms</Label>
+                      <Slider
+                        value={[echoOptions.tailMs]}
+                        onValueChange={([v]) => setEchoOptions({ ...echoOptions, tailMs: v })}
+                        min={0}
+                        max={2000}
+                        step={100}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        How long the mic stays deaf after Santa stops talking, so he never answers his own echo
+                      </p>
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="space-y-1">
+                        <Label htmlFor="echo-reference">Compare Mic Against Santa's Voice</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Lets louder player speech through while Santa talks (Piper voice only)
+                        </p>
+                      </div>
+                      <Switch 
+                        id="echo-reference" 
+                        checked={echoOptions.useReference} 
+                        onCheckedChange={(v) => setEchoOptions({ ...echoOptions, useReference: v })} 
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Word List (one per line, extra accepted answers after '=')</Label>
                       <Textarea
                         value={tempWordList}
                         onChange={(e) => setTempWordList(e.target.value)}
@@ -580,6 +1861,172 @@ export default function AdminPage() {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              <TabsContent value="llm">
+                <Card className="christmas-card">
+                  <CardContent className="pt-6 space-y-4">
+                    <div className="space-y-2">
+                      <Label>Runtime</Label>
+                      <Select value={llmSettings.provider} onValueChange={(v: LLMProviderKind) => handleProviderChange(v)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PROVIDER_KINDS.map(kind => (
+                            <SelectItem key={kind} value={kind}>{LLM_PROVIDERS[kind].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="llm-url">Server Address</Label>
+                      <Input
+                        id="llm-url"
+                        value={llmSettings.baseUrl}
+                        onChange={(e) => setLLMSettings({ ...llmSettings, baseUrl: e.target.value.trim() })}
+                        placeholder={LLM_PROVIDERS[llmSettings.provider].defaultBaseUrl}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between gap-2 p-3 rounded-lg bg-muted/30">
+                      <div className="space-y-1 min-w-0">
+                        <Badge variant={llmHealth.status === 'offline' ? 'destructive' : 'outline'}>{llmHealthText}</Badge>
+                        {llmHealth.error && <p className="text-xs text-destructive truncate">{llmHealth.error}</p>}
+                        {llmHealth.status === 'online' && (
+                          <p className="text-xs text-muted-foreground">
+                            {llmHealth.models.length} model{llmHealth.models.length === 1 ? '' : 's'} available
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={llmHealth.refresh}>
+                          <RefreshCw className="mr-1 h-4 w-4" />
+                          Check
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={handleWarmUp}
+                          disabled={warmUpState === 'warming' || llmHealth.status !== 'online'}
+                        >
+                          <Flame className="mr-1 h-4 w-4" />
+                          {warmUpState === 'warming' ? 'Warming Up...' : warmUpState === 'ready' ? 'Warm ✓' : 'Warm Up'}
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="llm-model">
+                        Model{LLM_PROVIDERS[llmSettings.provider].requiresModel ? '' : ' (optional)'}
+                      </Label>
+                      <Input
+                        id="llm-model"
+                        list="llm-models"
+                        value={llmSettings.model}
+                        onChange={(e) => setLLMSettings({ ...llmSettings, model: e.target.value.trim() })}
+                        placeholder={llmSettings.provider === 'ollama' ? 'llama3.2' : 'Whichever model is loaded'}
+                      />
+                      <datalist id="llm-models">
+                        {llmHealth.models.map(model => <option key={model} value={model} />)}
+                      </datalist>
+                    </div>
+                    <div className="space-y-3 pt-2 border-t border-border">
+                      <Label className="text-muted-foreground">Model per Task</Label>
+                      {llmHealth.models.length === 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Models show up here once the server answers
+                        </p>
+                      )}
+                      {LLM_TASKS.map(({ task, label }) => (
+                        <div key={task} className="flex items-center justify-between gap-4">
+                          <Label className="shrink-0">{label}</Label>
+                          <Select
+                            value={llmSettings.taskModels[task] || DEFAULT_MODEL_OPTION}
+                            onValueChange={(v) => setTaskModel(task, v === DEFAULT_MODEL_OPTION ? '' : v)}
+                            disabled={llmHealth.models.length === 0 && !llmSettings.taskModels[task]}
+                          >
+                            <SelectTrigger className="max-w-[60%]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={DEFAULT_MODEL_OPTION}>Same as above</SelectItem>
+                              {/* Keep a saved choice selectable even if the server no longer lists it */}
+                              {[...new Set([...llmHealth.models, llmSettings.taskModels[task]].filter(Boolean))].map(model => (
+                                <SelectItem key={model} value={model}>{model}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="llm-key">API Key (optional)</Label>
+                      <Input
+                        id="llm-key"
+                        type="password"
+                        value={llmSettings.apiKey}
+                        onChange={(e) => setLLMSettings({ ...llmSettings, apiKey: e.target.value.trim() })}
+                        placeholder="Only if the server asks for one"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Stored in this browser only and sent to the server above as a bearer token
+                      </p>
+                    </div>
+                    <div className="space-y-2 pt-2 border-t border-border">
+                      <Label>Request Timeout: {llmSettings.timeoutSec}s</Label>
+                      <Slider
+                        value={[llmSettings.timeoutSec]}
+                        onValueChange={([v]) => setLLMSettings({ ...llmSettings, timeoutSec: v })}
+                        min={10}
+                        max={180}
+                        step={5}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        A request is given up once the server has been silent this long
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Retries: {llmSettings.maxRetries}</Label>
+                      <Slider
+                        value={[llmSettings.maxRetries]}
+                        onValueChange={([v]) => setLLMSettings({ ...llmSettings, maxRetries: v })}
+                        min={0}
+                        max={5}
+                        step={1}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Timeouts, dropped connections and busy servers are tried again, waiting a little longer each time
+                      </p>
+                    </div>
+                    <div className="flex items-center justify-between gap-4 pt-2 border-t border-border">
+                      <div className="space-y-1">
+                        <Label htmlFor="memory">Conversation Memory</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Santa remembers this word's questions and answers, so he doesn't contradict himself
+                        </p>
+                      </div>
+                      <Switch
+                        id="memory"
+                        checked={memorySettings.enabled}
+                        onCheckedChange={(v) => setMemorySettings({ ...memorySettings, enabled: v })}
+                      />
+                    </div>
+                    {memorySettings.enabled && (
+                      <div className="space-y-2">
+                        <Label>Memory Budget: ~{memorySettings.tokenBudget} tokens</Label>
+                        <Slider
+                          value={[memorySettings.tokenBudget]}
+                          onValueChange={([v]) => setMemorySettings({ ...memorySettings, tokenBudget: v })}
+                          min={200}
+                          max={2000}
+                          step={100}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Older exchanges are summarized past this. In use for this word: ~{memoryTokens} tokens
+                        </p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
             </Tabs>
           </div>
 
@@ -644,6 +2091,137 @@ export default function AdminPage() {
               </CardContent>
             </Card>
 
+            {/* Scoreboard */}
+            <Card className="christmas-card">
+              <CardHeader>
+                <CardTitle className="text-christmas-gold flex items-center gap-2">
+                  <Trophy className="h-5 w-5" />
+                  Scoreboard
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {gameState.teams.length > 0 ? (
+                  <ul className="space-y-1">
+                    {rankTeams(gameState.teams).map(team => (
+                      <li key={team.team} className="flex items-center justify-between gap-2 p-2 rounded bg-muted/30">
+                        <span>
+                          <span className="font-medium">{team.team}</span>
+                          <span className="text-xs text-muted-foreground"> · {team.solves} solved, {team.wrongGuesses} wrong</span>
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => handleAdjustScore(team.team, -MANUAL_SCORE_STEP)}
+                            title={`-${MANUAL_SCORE_STEP} points`}
+                          >
+                            <Minus className="h-3 w-3" />
+                          </Button>
+                          <span className="w-12 text-right font-bold text-christmas-gold tabular-nums">{team.score}</span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => handleAdjustScore(team.team, MANUAL_SCORE_STEP)}
+                            title={`+${MANUAL_SCORE_STEP} points`}
+                          >
+                            <Plus className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => handleRemoveTeam(team.team)}
+                            title="Remove team"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-muted-foreground">No teams yet. Add one, or let players join from their phones.</p>
+                )}
+                <div className="flex gap-2">
+                  <Input
+                    value={newTeamName}
+                    onChange={(e) => setNewTeamName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddTeam()}
+                    placeholder="New team name"
+                  />
+                  <Button onClick={handleAddTeam} disabled={!newTeamName.trim()} size="icon" variant="secondary">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-muted-foreground">Room Mic & Typed Guesses Score For</Label>
+                  <Select value={micTeam || NO_TEAM} onValueChange={(v) => setMicTeam(v === NO_TEAM ? '' : v)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TEAM}>Nobody (no points)</SelectItem>
+                      {gameState.teams.map(team => (
+                        <SelectItem key={team.team} value={team.team}>{team.team}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {gameState.teams.length > 0 && (
+                  <Button variant="outline" size="sm" className="w-full" onClick={handleResetScores}>
+                    Reset Scores
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Phone Players */}
+            <Card className="christmas-card">
+              <CardHeader>
+                <CardTitle className="text-christmas-gold flex items-center gap-2">
+                  <Smartphone className="h-5 w-5" />
+                  Players ({players.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {joinUrl ? (
+                  <p className="text-muted-foreground">
+                    Players scan the QR code on the display, or open <span className="font-mono break-all">{joinUrl}</span>
+                  </p>
+                ) : (
+                  <p className="text-muted-foreground">
+                    Turn on Network Display (Set Display tab) so players can join from their phones.
+                  </p>
+                )}
+                {players.length > 0 && (
+                  <ul className="space-y-1">
+                    {players.map(player => (
+                      <li key={player.id} className="flex items-center justify-between gap-2 p-2 rounded bg-muted/30">
+                        <span>
+                          <span className="font-medium">{player.name}</span>
+                          {player.team && <span className="text-muted-foreground"> · {player.team}</span>}
+                        </span>
+                        <span className="flex items-center gap-2">
+                          <Badge variant="outline">{player.inputCount} sent</Badge>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => removePlayer(player.id)}
+                            title="Remove player"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Connection Status */}
             <Card className="christmas-card">
               <CardHeader>
@@ -652,8 +2230,8 @@ export default function AdminPage() {
               <CardContent className="space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Speech Recognition</span>
-                  <Badge variant={speechSupported ? 'default' : 'destructive'}>
-                    {speechSupported ? '✓ Ready' : '✗ Not Supported'}
+                  <Badge variant={!speechSupported || sttError ? 'destructive' : isSTTReady ? 'default' : 'outline'}>
+                    {!speechSupported ? '✗ Not Supported' : sttError ? '✗ Model Error' : isSTTReady ? '✓ Ready' : '⏳ Loading'}
                   </Badge>
                 </div>
                 <div className="flex justify-between">
@@ -663,9 +2241,9 @@ export default function AdminPage() {
                   </Badge>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">LM Studio</span>
-                  <Badge variant={isLMLoading ? 'outline' : 'default'}>
-                    {isLMLoading ? '⏳ Processing' : '✓ Ready'}
+                  <span className="text-muted-foreground">{backendLabel}</span>
+                  <Badge variant={llmHealth.status === 'offline' ? 'destructive' : isLMLoading ? 'outline' : 'default'}>
+                    {llmHealth.status === 'offline' ? '✗ Offline' : isLMLoading ? '⏳ Processing' : '✓ Ready'}
                   </Badge>
                 </div>
               </CardContent>
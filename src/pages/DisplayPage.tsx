@@ -1,32 +1,50 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { ChristmasCharacter } from '@/components/ChristmasCharacter';
 import { AudioWaveform } from '@/components/AudioWaveform';
-import { useWindowChannel, GameState, CharacterEmotion } from '@/hooks/useWindowChannel';
+import { Scoreboard } from '@/components/Scoreboard';
+import { SessionScreen } from '@/components/SessionScreen';
+import { RoundCountdown } from '@/components/RoundCountdown';
+import { AnswerReveal } from '@/components/AnswerReveal';
+import { useWindowChannel, describeVersionMismatch, PublicGameState, CharacterEmotion } from '@/hooks/useWindowChannel';
 import { useAudioVisualizer } from '@/hooks/useAudioVisualizer';
+import { useAudioDevices } from '@/hooks/useAudioDevices';
+import { relayConfigFromSearch } from '@/lib/channelTransport';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Mic } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
 
-const DEFAULT_STATE: GameState = {
+const DEFAULT_STATE: PublicGameState = {
   isGameActive: false,
-  currentWord: '',
   currentRiddle: '',
   hintsRemaining: 3,
   hintsUsed: 0,
   emotion: 'neutral',
   statusText: 'Waiting for game to start...',
+  teams: [],
+  session: null,
+  timer: null,
+  reveal: null,
 };
 
 export default function DisplayPage() {
-  const [gameState, setGameState] = useState<GameState>(DEFAULT_STATE);
+  const [gameState, setGameState] = useState<PublicGameState>(DEFAULT_STATE);
   const [showHint, setShowHint] = useState(false);
   const [hintText, setHintText] = useState('');
   const [aiResponse, setAIResponse] = useState('');
+  const [isResponseStreaming, setIsResponseStreaming] = useState(false);
+  const [joinUrl, setJoinUrl] = useState<string | null>(null);
   const [audioEnabled, setAudioEnabled] = useState(false);
   const [audioError, setAudioError] = useState<string | null>(null);
+  // Admin clock minus ours, from the heartbeat, so the countdown matches across devices
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+  const clockOffsetRef = useRef(0);
   
-  const { subscribe } = useWindowChannel(false);
-  const { isActive: isVisualizerActive, frequencyData, start: startVisualizer, stop: stopVisualizer } = useAudioVisualizer();
+  // Opened on another machine via the relay link, or as a local window
+  const [relay] = useState(() => relayConfigFromSearch(window.location.search));
+  const { send, subscribe, requestSnapshot, versionMismatch, relayStatus } = useWindowChannel('display', { relay });
+  const { inputId } = useAudioDevices();
+  const { isActive: isVisualizerActive, frequencyData, start: startVisualizer, stop: stopVisualizer } = useAudioVisualizer({ deviceId: inputId });
 
   // Manual audio enable (required for user gesture in modern browsers)
   const handleEnableAudio = useCallback(async () => {
@@ -49,8 +67,35 @@ export default function DisplayPage() {
     }
   }, [gameState.isGameActive, audioEnabled, isVisualizerActive, startVisualizer]);
 
+  // Answer the admin's heartbeat, and catch up whenever this window or the admin (re)opens
   useEffect(() => {
-    const unsubGameState = subscribe('game_state', (state: GameState) => {
+    const unsubPing = subscribe('ping', (heartbeat) => {
+      send({ type: 'pong', payload: heartbeat });
+      // Only re-render when the offset moves noticeably
+      const offset = heartbeat.sentAt - Date.now();
+      if (Math.abs(offset - clockOffsetRef.current) > 250) {
+        clockOffsetRef.current = offset;
+        setClockOffsetMs(offset);
+      }
+    });
+
+    // hello: the admin (re)opened; hello_ack: the admin answered our own hello
+    const unsubHello = subscribe('hello', ({ role }) => {
+      if (role === 'admin') requestSnapshot();
+    });
+    const unsubHelloAck = subscribe('hello_ack', ({ role }) => {
+      if (role === 'admin') requestSnapshot();
+    });
+
+    return () => {
+      unsubPing();
+      unsubHello();
+      unsubHelloAck();
+    };
+  }, [send, subscribe, requestSnapshot]);
+
+  useEffect(() => {
+    const applyState = (state: PublicGameState) => {
       setGameState(state);
       if (state.hintText && state.hintText !== hintText) {
         setHintText(state.hintText);
@@ -58,6 +103,19 @@ export default function DisplayPage() {
         // Hide hint after 10 seconds
         setTimeout(() => setShowHint(false), 10000);
       }
+    };
+
+    const unsubGameState = subscribe('game_state', applyState);
+
+    const unsubSnapshot = subscribe('snapshot', ({ state, aiResponse, joinUrl }) => {
+      applyState(state);
+      setAIResponse(aiResponse ?? '');
+      setIsResponseStreaming(false);
+      setJoinUrl(joinUrl);
+    });
+
+    const unsubJoinInfo = subscribe('join_info', ({ joinUrl }) => {
+      setJoinUrl(joinUrl);
     });
 
     const unsubEmotion = subscribe('set_emotion', (emotion: CharacterEmotion) => {
@@ -70,23 +128,35 @@ export default function DisplayPage() {
       setTimeout(() => setShowHint(false), 10000);
     });
 
-    const unsubDisplay = subscribe('set_display', (display: GameState['customDisplay']) => {
-      setGameState(prev => ({ ...prev, customDisplay: display }));
+    const unsubDisplay = subscribe('set_display', (display: PublicGameState['customDisplay']) => {
+      setGameState(prev => ({ ...prev, customDisplay: display ?? undefined }));
     });
 
     const unsubAIResponse = subscribe('ai_response', (response: string) => {
       setAIResponse(response);
+      setIsResponseStreaming(false);
+    });
+
+    const unsubAIResponsePartial = subscribe('ai_response_partial', (partial: string) => {
+      setAIResponse(partial);
+      setIsResponseStreaming(true);
     });
 
     return () => {
       unsubGameState();
+      unsubSnapshot();
+      unsubJoinInfo();
       unsubEmotion();
       unsubHint();
       unsubDisplay();
       unsubAIResponse();
+      unsubAIResponsePartial();
     };
   }, [subscribe, hintText]);
 
+  const session = gameState.session;
+  const isSessionBreak = session?.phase === 'intermission' || session?.phase === 'finished';
+
   return (
     <div className="min-h-screen bg-background flex flex-col items-center justify-center p-8 snowfall overflow-hidden">
       {/* Decorative Christmas Lights */}
@@ -108,6 +178,29 @@ export default function DisplayPage() {
 
       {/* Main Content */}
       <div className="flex flex-col items-center gap-8 max-w-3xl w-full">
+        {relay && relayStatus !== 'open' && (
+          <div className="w-full p-3 bg-muted/60 border border-border rounded-xl text-muted-foreground text-center">
+            📡 Connecting to the game in room <span className="font-bold tracking-widest">{relay.room}</span>...
+          </div>
+        )}
+
+        {versionMismatch && (
+          <div className="w-full p-4 bg-destructive/20 border-2 border-destructive rounded-xl text-destructive text-center">
+            <p className="text-xl font-bold">⚠️ Display out of sync with the admin</p>
+            <p>{describeVersionMismatch(versionMismatch)}</p>
+          </div>
+        )}
+
+        {/* Session Progress */}
+        {session?.phase === 'playing' && (
+          <div className="px-4 py-1 rounded-full bg-christmas-gold/20 border border-christmas-gold text-christmas-gold font-bold">
+            Round {session.round}/{session.totalRounds} · Riddle {session.word}/{session.wordsPerRound}
+          </div>
+        )}
+
+        {/* Between Rounds / Final Leaderboard */}
+        {isSessionBreak && <SessionScreen session={session} teams={gameState.teams} />}
+
         {/* Custom Display Content */}
         {gameState.customDisplay && (
           <div className="w-full max-w-lg animate-fade-in">
@@ -135,6 +228,11 @@ export default function DisplayPage() {
           </div>
         )}
 
+        {/* Round Timer */}
+        {gameState.isGameActive && gameState.timer && (
+          <RoundCountdown timer={gameState.timer} clockOffsetMs={clockOffsetMs} />
+        )}
+
         {/* Character */}
         <ChristmasCharacter emotion={gameState.emotion} size="lg" />
 
@@ -186,12 +284,20 @@ export default function DisplayPage() {
                 <span className="text-2xl">🎅</span>
                 <span className="text-lg font-bold text-christmas-green">Response</span>
               </div>
-              <p className="text-lg text-foreground text-center">{aiResponse}</p>
+              <p className="text-lg text-foreground text-center">
+                {aiResponse}
+                {isResponseStreaming && (
+                  <span className="inline-block w-2 h-5 ml-1 align-middle bg-christmas-green animate-pulse" />
+                )}
+              </p>
             </div>
           )}
 
+          {/* Answer Reveal */}
+          {gameState.reveal && !isSessionBreak && <AnswerReveal reveal={gameState.reveal} />}
+
           {/* Game Status */}
-          {!gameState.isGameActive && !gameState.customDisplay && (
+          {!gameState.isGameActive && !gameState.customDisplay && !isSessionBreak && !gameState.reveal && (
             <div className="bg-card/80 backdrop-blur rounded-xl p-8 border border-border">
               <h2 className="text-3xl font-bold text-christmas-gold mb-4">🎄 Christmas Riddle Game 🎄</h2>
               <p className="text-lg text-muted-foreground">
@@ -217,6 +323,25 @@ export default function DisplayPage() {
         )}
       </div>
 
+      {/* Scoreboard Overlay */}
+      {!isSessionBreak && (
+        <Scoreboard
+          teams={gameState.teams}
+          lastScoreEvent={gameState.lastScoreEvent}
+          className="fixed top-20 right-6 z-10"
+        />
+      )}
+
+      {/* Join QR Code */}
+      {joinUrl && (
+        <div className="fixed bottom-24 right-6 z-10 flex flex-col items-center gap-2 bg-card/90 backdrop-blur border-2 border-christmas-gold rounded-xl p-3">
+          <div className="bg-white p-2 rounded-lg">
+            <QRCodeSVG value={joinUrl} size={128} />
+          </div>
+          <p className="text-sm font-bold text-christmas-gold">📱 Scan to play!</p>
+        </div>
+      )}
+
       {/* Bottom Decorations */}
       <div className="fixed bottom-0 left-0 right-0 h-20 flex items-end justify-center overflow-hidden">
         <div className="flex gap-8">
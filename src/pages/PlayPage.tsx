@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Send } from 'lucide-react';
+import { useWindowChannel, PlayerInfo, PublicGameState } from '@/hooks/useWindowChannel';
+import { relayConfigFromSearch } from '@/lib/channelTransport';
+
+// Phone controller: players join with a name (and optional team), then type guesses or questions
+
+const PLAYER_STORAGE_KEY = 'christmas-riddle-game:player';
+const MAX_NAME_LENGTH = 24;
+const MAX_RECENT_SUBMISSIONS = 5;
+// A guess the admin never acknowledged (connection lost on the way) stops saying "Sending..."
+const SUBMISSION_TIMEOUT_MS = 10000;
+
+type JoinStatus = 'idle' | 'joining' | 'joined' | 'rejected';
+
+interface Submission {
+  inputId: string;
+  text: string;
+  status: 'sending' | 'queued' | 'rejected';
+  reason?: string;
+}
+
+// crypto.randomUUID needs a secure context, which a LAN http:// page isn't
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+function loadProfile(): PlayerInfo {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PLAYER_STORAGE_KEY) ?? 'null');
+    if (stored?.id) return stored;
+  } catch {
+    // Fall through to a fresh profile
+  }
+  return { id: createId(), name: '', team: '' };
+}
+
+export default function PlayPage() {
+  const [relay] = useState(() => relayConfigFromSearch(window.location.search));
+  const { send, subscribe, requestSnapshot, relayStatus, versionMismatch } = useWindowChannel('player', { relay });
+
+  const [profile, setProfile] = useState<PlayerInfo>(loadProfile);
+  const [joinStatus, setJoinStatus] = useState<JoinStatus>('idle');
+  const [rejectReason, setRejectReason] = useState('');
+  const [gameState, setGameState] = useState<PublicGameState | null>(null);
+  const [aiResponse, setAIResponse] = useState('');
+  const [input, setInput] = useState('');
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+
+  const join = useCallback((player: PlayerInfo) => {
+    setJoinStatus('joining');
+    send({ type: 'player_join', payload: player });
+  }, [send]);
+
+  const handleJoin = () => {
+    const player = { ...profile, name: profile.name.trim(), team: profile.team.trim() };
+    if (!player.name) return;
+    setProfile(player);
+    try {
+      localStorage.setItem(PLAYER_STORAGE_KEY, JSON.stringify(player));
+    } catch {
+      // Not remembered across reloads, but still playable
+    }
+    join(player);
+  };
+
+  // Catch up, and re-register, whenever the admin (re)appears
+  useEffect(() => {
+    const onAdmin = ({ role }: { role: string }) => {
+      if (role !== 'admin') return;
+      requestSnapshot();
+      if (joinStatus === 'joining' || joinStatus === 'joined') {
+        send({ type: 'player_join', payload: profile });
+      }
+    };
+    const unsubHello = subscribe('hello', onAdmin);
+    const unsubHelloAck = subscribe('hello_ack', onAdmin);
+    return () => {
+      unsubHello();
+      unsubHelloAck();
+    };
+  }, [subscribe, requestSnapshot, send, joinStatus, profile]);
+
+  useEffect(() => {
+    const unsubWelcome = subscribe('player_welcome', ({ playerId, accepted, reason }) => {
+      if (playerId !== profile.id) return;
+      setJoinStatus(accepted ? 'joined' : 'rejected');
+      setRejectReason(reason ?? '');
+    });
+
+    const unsubStatus = subscribe('player_input_status', ({ playerId, inputId, status, reason }) => {
+      if (playerId !== profile.id) return;
+      setSubmissions(prev => prev.map(s => s.inputId === inputId ? { ...s, status, reason } : s));
+    });
+
+    const unsubState = subscribe('game_state', setGameState);
+    const unsubSnapshot = subscribe('snapshot', ({ state, aiResponse }) => {
+      setGameState(state);
+      setAIResponse(aiResponse ?? '');
+    });
+    const unsubResponse = subscribe('ai_response', setAIResponse);
+    const unsubPartial = subscribe('ai_response_partial', setAIResponse);
+
+    return () => {
+      unsubWelcome();
+      unsubStatus();
+      unsubState();
+      unsubSnapshot();
+      unsubResponse();
+      unsubPartial();
+    };
+  }, [subscribe, profile.id]);
+
+  const handleSubmit = () => {
+    const text = input.trim();
+    if (!text) return;
+    const inputId = createId();
+    setSubmissions(prev => [{ inputId, text, status: 'sending' as const }, ...prev].slice(0, MAX_RECENT_SUBMISSIONS));
+    send({ type: 'player_input', payload: { playerId: profile.id, inputId, text } });
+    setInput('');
+    setTimeout(() => {
+      setSubmissions(prev => prev.map(s => s.inputId === inputId && s.status === 'sending'
+        ? { ...s, status: 'rejected', reason: 'No answer from Santa, try again' }
+        : s));
+    }, SUBMISSION_TIMEOUT_MS);
+  };
+
+  const isGameActive = !!gameState?.isGameActive;
+
+  return (
+    <div className="min-h-screen bg-background p-4 snowfall">
+      <div className="max-w-md mx-auto space-y-4">
+        <h1 className="text-3xl font-bold text-christmas-gold text-center">🎄 Christmas Riddle 🎄</h1>
+
+        {versionMismatch && (
+          <div className="p-3 bg-destructive/20 rounded-lg text-destructive text-sm">
+            ⚠️ This page is out of date. Please reload it.
+          </div>
+        )}
+
+        {relay && relayStatus !== 'open' && (
+          <div className="p-3 bg-muted/60 rounded-lg text-muted-foreground text-sm text-center">
+            📡 Connecting to room <span className="font-bold tracking-widest">{relay.room}</span>...
+          </div>
+        )}
+
+        {joinStatus !== 'joined' ? (
+          <Card className="christmas-card">
+            <CardHeader>
+              <CardTitle className="text-christmas-gold">Join the Game</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="player-name">Your Name</Label>
+                <Input
+                  id="player-name"
+                  value={profile.name}
+                  maxLength={MAX_NAME_LENGTH}
+                  onChange={(e) => setProfile({ ...profile, name: e.target.value })}
+                  placeholder="Rudolph"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="player-team">Team (optional)</Label>
+                <Input
+                  id="player-team"
+                  value={profile.team}
+                  maxLength={MAX_NAME_LENGTH}
+                  onChange={(e) => setProfile({ ...profile, team: e.target.value })}
+                  placeholder="Team Elf"
+                />
+              </div>
+              {joinStatus === 'rejected' && rejectReason && (
+                <p className="text-sm text-destructive">{rejectReason}</p>
+              )}
+              {joinStatus === 'joining' && (
+                <p className="text-sm text-muted-foreground">Waiting for the host...</p>
+              )}
+              <Button
+                onClick={handleJoin}
+                disabled={!profile.name.trim() || joinStatus === 'joining'}
+                className="w-full bg-christmas-green hover:bg-christmas-green/80"
+                size="lg"
+              >
+                Join
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-foreground">
+                Playing as <span className="font-bold">{profile.name}</span>
+                {profile.team && <span className="text-muted-foreground"> · {profile.team}</span>}
+              </span>
+              <Badge variant={isGameActive ? 'default' : 'secondary'}>
+                {isGameActive ? '🎮 Game on' : '⏸️ Waiting'}
+              </Badge>
+            </div>
+
+            {isGameActive && gameState?.currentRiddle && (
+              <Card className="christmas-card">
+                <CardContent className="pt-6">
+                  <p className="text-lg italic text-foreground">"{gameState.currentRiddle}"</p>
+                </CardContent>
+              </Card>
+            )}
+
+            {gameState?.statusText && (
+              <p className="text-center text-muted-foreground">{gameState.statusText}</p>
+            )}
+
+            {aiResponse && isGameActive && (
+              <div className="p-3 rounded-lg bg-christmas-green/20 border border-christmas-green/30">
+                <p className="text-foreground">🎅 {aiResponse}</p>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Input
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                placeholder={isGameActive ? 'Guess or ask a question...' : 'Waiting for the next riddle...'}
+                disabled={!isGameActive}
+                maxLength={200}
+              />
+              <Button onClick={handleSubmit} disabled={!isGameActive || !input.trim()} size="icon">
+                <Send className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {submissions.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {submissions.map(s => (
+                  <li key={s.inputId} className="flex items-center justify-between gap-2 p-2 rounded bg-muted/30">
+                    <span className="truncate">{s.text}</span>
+                    <span className={s.status === 'rejected' ? 'text-destructive' : 'text-muted-foreground'}>
+                      {s.status === 'sending' ? 'Sending...' : s.status === 'queued' ? '✓ Sent to Santa' : s.reason ?? 'Not sent'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { pipeline, env } from '@huggingface/transformers';
+import type { AutomaticSpeechRecognitionPipeline, PretrainedModelOptions, ProgressInfo } from '@huggingface/transformers';
+
+// Whisper speech-to-text running on CPU (WASM) inside a worker so decoding
+// never blocks the admin UI. Model files are cached by the browser Cache API,
+// so after the first download transcription works fully offline.
+
+export type WhisperWorkerRequest =
+  | { type: 'load'; modelId: string }
+  | { type: 'transcribe'; id: number; audio: Float32Array };
+
+export type WhisperWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'ready'; modelId: string }
+  | { type: 'result'; id: number; text: string }
+  | { type: 'error'; id?: number; message: string };
+
+env.allowLocalModels = false;
+env.useBrowserCache = true;
+
+// `pipeline` is overloaded per task; narrowing it keeps tsc from expanding every task's type
+const createTranscriber = pipeline as unknown as (
+  task: 'automatic-speech-recognition',
+  model: string,
+  options: PretrainedModelOptions,
+) => Promise<AutomaticSpeechRecognitionPipeline>;
+
+let transcriber: AutomaticSpeechRecognitionPipeline | null = null;
+let loadingModelId: string | null = null;
+
+const post = (message: WhisperWorkerResponse) => self.postMessage(message);
+
+async function load(modelId: string) {
+  if (loadingModelId === modelId) return;
+  loadingModelId = modelId;
+  transcriber = null;
+
+  // Aggregate progress across every file the model needs
+  const files = new Map<string, { loaded: number; total: number }>();
+  const onProgress = (info: ProgressInfo) => {
+    if (info.status !== 'progress') return;
+    files.set(info.file, { loaded: info.loaded, total: info.total });
+    let loaded = 0;
+    let total = 0;
+    files.forEach(f => {
+      loaded += f.loaded;
+      total += f.total;
+    });
+    if (total > 0) post({ type: 'progress', progress: Math.round((loaded * 100) / total) });
+  };
+
+  try {
+    transcriber = await createTranscriber('automatic-speech-recognition', modelId, {
+      device: 'wasm',
+      dtype: 'q8',
+      progress_callback: onProgress,
+    });
+    post({ type: 'ready', modelId });
+  } catch (error) {
+    loadingModelId = null;
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+async function transcribe(id: number, audio: Float32Array) {
+  if (!transcriber) {
+    post({ type: 'error', id, message: 'Whisper model not loaded' });
+    return;
+  }
+
+  try {
+    const output = await transcriber(audio);
+    const text = Array.isArray(output) ? output.map(o => o.text).join(' ') : output.text;
+    post({ type: 'result', id, text: text.trim() });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<WhisperWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'load') {
+    load(request.modelId);
+  } else if (request.type === 'transcribe') {
+    transcribe(request.id, request.audio);
+  }
+});
@@ -106,6 +106,17 @@ export default {
           "75%": { transform: "scale(1.05) rotate(2deg)" },
           "100%": { transform: "scale(1)" },
         },
+        "score-pop": {
+          "0%": { opacity: "0", transform: "translateY(8px) scale(0.8)" },
+          "20%": { opacity: "1", transform: "translateY(0) scale(1.2)" },
+          "80%": { opacity: "1", transform: "translateY(-16px) scale(1)" },
+          "100%": { opacity: "0", transform: "translateY(-24px) scale(1)" },
+        },
+        "reveal": {
+          "0%": { opacity: "0", transform: "scale(0.3) rotate(-8deg)" },
+          "60%": { opacity: "1", transform: "scale(1.15) rotate(2deg)" },
+          "100%": { opacity: "1", transform: "scale(1) rotate(0)" },
+        },
       },
       animation: {
         "accordion-down": "accordion-down 0.2s ease-out",
@@ -114,6 +125,8 @@ export default {
         "bounce-gentle": "bounce-gentle 2s ease-in-out infinite",
         "wiggle": "wiggle 0.5s ease-in-out infinite",
         "thinking": "thinking 1.5s ease-in-out infinite",
+        "score-pop": "score-pop 2s ease-out forwards",
+        "reveal": "reveal 0.8s ease-out both",
       },
     },
   },